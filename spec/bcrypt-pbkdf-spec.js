@@ -0,0 +1,11 @@
+/* @flow */
+
+import { it } from 'jasmine-fix'
+import { bcryptPbkdf } from '../src/bcrypt-pbkdf'
+
+describe('bcryptPbkdf', function() {
+  it('derives keys like OpenBSD does', function() {
+    const key = bcryptPbkdf(new Buffer('password'), new Buffer('salt'), 32, 4)
+    expect(key.toString('hex')).toBe('5bbf0cc293587f1c3635555c27796598d47e579071bf427e9d8fbe842aba34d9')
+  })
+})
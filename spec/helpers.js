@@ -13,3 +13,20 @@ export async function expectToThrow(callback: (() => Promise<void> | void), mess
     expect(error.message).toBe(message)
   }
 }
+
+export function createCancelSignal(): Object {
+  const listeners = new Set()
+  return {
+    aborted: false,
+    addEventListener(type, listener) {
+      listeners.add(listener)
+    },
+    removeEventListener(type, listener) {
+      listeners.delete(listener)
+    },
+    abort() {
+      this.aborted = true
+      listeners.forEach(listener => listener())
+    },
+  }
+}
@@ -0,0 +1,100 @@
+/* @flow */
+
+import FS from 'fs'
+import EventEmitter from 'events'
+import OS from 'os'
+import Path from 'path'
+import { it } from 'jasmine-fix'
+import { HostKeyError, HostKeyMismatchError, HostKeyUnknownError } from '../src/errors'
+import { formatKnownHost, getFingerprint, onHostKey, parseKnownHosts, verifyHostKey } from '../src/known-hosts'
+
+describe('Known Hosts', function() {
+  const knownHostsPath = Path.join(__dirname, 'fixtures', 'known_hosts')
+  const entries = parseKnownHosts(FS.readFileSync(knownHostsPath, 'utf8'))
+  const key = new Buffer(FS.readFileSync(Path.join(__dirname, 'fixtures', 'id_rsa.pub'), 'utf8').split(' ')[1], 'base64')
+
+  it('formats hosts with non-standard ports', function() {
+    expect(formatKnownHost('example.com')).toBe('example.com')
+    expect(formatKnownHost('example.com', 2222)).toBe('[example.com]:2222')
+  })
+  it('parses entries and markers', function() {
+    expect(entries.length).toBe(5)
+    expect(entries[0].hosts).toEqual(['example.com', '10.0.0.1'])
+    expect(entries[0].keyType).toBe('ssh-rsa')
+    expect(entries[4].marker).toBe('@revoked')
+  })
+  it('computes OpenSSH style fingerprints', function() {
+    expect(getFingerprint(key)).toMatch(/^SHA256:[A-Za-z0-9+/]{43}$/)
+  })
+  it('accepts known keys in plain, hashed and wildcard entries', async function() {
+    expect(await verifyHostKey(entries, 'example.com', 22, key, 'strict', knownHostsPath)).toBe(null)
+    expect(await verifyHostKey(entries, '10.0.0.1', 22, key, 'strict', knownHostsPath)).toBe(null)
+    expect(await verifyHostKey(entries, 'hashed.example.com', 22, key, 'strict', knownHostsPath)).toBe(null)
+    expect(await verifyHostKey(entries, 'web.wildcard.example.com', 22, key, 'strict', knownHostsPath)).toBe(null)
+  })
+  it('reports mismatches with both fingerprints', async function() {
+    const error = await verifyHostKey(entries, 'example.com', 2222, key, 'accept-new', knownHostsPath)
+    expect(error instanceof HostKeyMismatchError).toBe(true)
+    expect(error.host).toBe('[example.com]:2222')
+    expect(error.expectedFingerprints.length).toBe(1)
+    expect(error.presentedFingerprint).toBe(getFingerprint(key))
+    expect((await verifyHostKey(entries, 'revoked.example.com', 22, key, 'strict', knownHostsPath)) instanceof HostKeyMismatchError).toBe(true)
+  })
+  it('rejects unknown hosts in strict mode', async function() {
+    expect((await verifyHostKey(entries, 'evil.wildcard.example.com', 22, key, 'strict', knownHostsPath)) instanceof HostKeyUnknownError).toBe(true)
+  })
+  it('records unknown hosts in accept-new mode', async function() {
+    const filePath = Path.join(OS.tmpdir(), `known_hosts_${Date.now()}`)
+    try {
+      expect(await verifyHostKey([], 'new.example.com', 2200, key, 'accept-new', filePath)).toBe(null)
+      const recorded = parseKnownHosts(FS.readFileSync(filePath, 'utf8'))
+      expect(await verifyHostKey(recorded, 'new.example.com', 2200, key, 'strict', filePath)).toBe(null)
+    } finally {
+      FS.unlinkSync(filePath)
+    }
+  })
+  it('starts a new line when the last entry does not end with one', async function() {
+    const filePath = Path.join(OS.tmpdir(), `known_hosts_${Date.now()}`)
+    FS.writeFileSync(filePath, FS.readFileSync(knownHostsPath, 'utf8').trim())
+    try {
+      expect(await verifyHostKey(entries, 'new.example.com', 22, key, 'accept-new', filePath)).toBe(null)
+      const recorded = parseKnownHosts(FS.readFileSync(filePath, 'utf8'))
+      expect(recorded.length).toBe(entries.length + 1)
+      expect(await verifyHostKey(recorded, 'new.example.com', 22, key, 'strict', filePath)).toBe(null)
+      expect((await verifyHostKey(recorded, 'revoked.example.com', 22, key, 'strict', filePath)) instanceof HostKeyMismatchError).toBe(true)
+    } finally {
+      FS.unlinkSync(filePath)
+    }
+  })
+  it('creates the directory of the known hosts file', async function() {
+    const directory = Path.join(OS.tmpdir(), `ssh_${Date.now()}`)
+    const filePath = Path.join(directory, 'known_hosts')
+    try {
+      expect(await verifyHostKey([], 'new.example.com', 22, key, 'accept-new', filePath)).toBe(null)
+      expect(FS.statSync(directory).mode & 0o777).toBe(0o700)
+      expect(parseKnownHosts(FS.readFileSync(filePath, 'utf8')).length).toBe(1)
+    } finally {
+      FS.unlinkSync(filePath)
+      FS.rmdirSync(directory)
+    }
+  })
+  it('hands over the host key of a connection', function() {
+    const connection = { _sshstream: new EventEmitter() }
+    const keys = []
+    onHostKey(connection, 'example.com', function(presented) {
+      keys.push(presented)
+    })
+    connection._sshstream.emit('fingerprint', key, function() { })
+    expect(keys).toEqual([key])
+  })
+  it('refuses to go ahead when the host key can not be seen', function() {
+    try {
+      onHostKey({}, 'example.com', function() { })
+      expect(false).toBe(true)
+    } catch (_) {
+      expect(_ instanceof HostKeyError).toBe(true)
+      expect(_.code).toBe('EHOSTKEY')
+      expect(_.host).toBe('example.com')
+    }
+  })
+})
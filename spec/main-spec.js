@@ -3,13 +3,23 @@
 import FS from 'fs'
 import Path from 'path'
 import invariant from 'assert'
+import net from 'net'
 import ChildProcess from 'child_process'
 
 import { it, wait } from 'jasmine-fix'
-import SSH2 from '../src'
+import SSH2, {
+  AuthenticationError,
+  CancelledError,
+  CommandFailedError,
+  NotConnectedError,
+  SSHPool,
+  ShellCommandsError,
+  TransferError,
+  ValidationError,
+} from '../src'
 import { exists } from '../src/helpers'
 import createServer from './ssh-server'
-import { PRIVATE_KEY_PATH } from './helpers'
+import { PRIVATE_KEY_PATH, createCancelSignal } from './helpers'
 
 describe('SSH2', function() {
   let ports = 8876
@@ -86,6 +96,39 @@ describe('SSH2', function() {
       expect('Should not have hit').toBe(error)
     }
   })
+  sshit('rejects with typed errors', async function(port, client) {
+    try {
+      await client.exec('ls')
+      expect(false).toBe(true)
+    } catch (_) {
+      expect(_ instanceof NotConnectedError).toBe(true)
+      expect(_.code).toBe('ENOTCONN')
+    }
+    await connectWithPassword(port, client)
+    try {
+      await client.putFile(getFixturePath('non-existent'), getFixturePath('ignored/non-existent'))
+      expect(false).toBe(true)
+    } catch (_) {
+      expect(_ instanceof ValidationError).toBe(true)
+      expect(_.code).toBe('EINVAL')
+    }
+    try {
+      await client.getFile(getFixturePath('ignored/non-existent'), getFixturePath('ignored/non-existent'))
+      expect(false).toBe(true)
+    } catch (_) {
+      expect(_ instanceof TransferError).toBe(true)
+      expect(_.code).toBe('ENOENT')
+      expect(_.remotePath).toBe(getFixturePath('ignored/non-existent'))
+    }
+    try {
+      await client.mkdir(getFixturePath('id_rsa.pub'))
+      expect(false).toBe(true)
+    } catch (_) {
+      expect(_ instanceof TransferError).toBe(true)
+      expect(_.code).toBe('ENOTDIR')
+      expect(_.remotePath).toBe(getFixturePath('id_rsa.pub'))
+    }
+  })
   sshit('requests a shell that works', async function(port, client) {
     await connectWithPassword(port, client)
     const data = []
@@ -126,10 +169,115 @@ describe('SSH2', function() {
     const result = await client.exec('echo', ['$some', 'S\\Thing', '"Yo"'])
     expect(result).toBe('$some S\\Thing "Yo"')
   })
+  sshit('reads exit codes from the prompt of a pty shell', async function(port, client) {
+    await connectWithPassword(port, client)
+    const shell = await client.shell()
+    const codes = []
+    shell.on('prompt', function(code) {
+      codes.push(code)
+      if (codes.length === 1) {
+        shell.write('(exit 3)\n')
+      } else {
+        shell.close()
+      }
+    })
+    shell.resume()
+    await new Promise(function(resolve) {
+      shell.on('close', resolve)
+    })
+    expect(codes).toEqual([0, 3])
+
+    const results = await client.runCommandsInShell(['true', 'false', '(exit 7)'])
+    expect(results.map(result => result.code)).toEqual([0, 1, 7])
+  })
+  sshit('returns the result of every shell command', async function(port, client) {
+    await connectWithPassword(port, client)
+    const results = await client.runCommandsInShell([
+      'echo hello',
+      'false',
+      { cmd: 'sleep 5', timeout: 500 },
+      'echo after',
+    ])
+    expect(results.map(result => result.command)).toEqual(['echo hello', 'false', 'sleep 5', 'echo after'])
+    expect(results.map(result => result.code)).toEqual([0, 1, 130, 0])
+    expect(results.map(result => result.timedOut)).toEqual([false, false, true, false])
+    expect(results[0].stdout).toBe('hello')
+    expect(results[3].stdout).toBe('after')
+  })
+  sshit('strips the echoed command from shell output', async function(port, client) {
+    await connectWithPassword(port, client)
+    const results = await client.runCommandsInShell(['stty echo', 'echo hello'])
+    expect(results[1].stdout).toBe('hello')
+  })
+  sshit('stops running shell commands on the first failure when asked to', async function(port, client) {
+    await connectWithPassword(port, client)
+    try {
+      await client.runCommandsInShell(['echo one', 'false', 'echo never'], false, { errorPolicy: 'stopOnError' })
+      expect(false).toBe(true)
+    } catch (_) {
+      expect(_ instanceof ShellCommandsError).toBe(true)
+      expect(_.code).toBe('ECOMMAND')
+      expect(_.command).toBe('false')
+      expect(_.result.code).toBe(1)
+      expect(_.results.map(result => result.command)).toEqual(['echo one', 'false'])
+    }
+    try {
+      await client.runCommandsInShell(['sleep 5', 'echo never'], false, { errorPolicy: 'stopOnError', timeout: 500 })
+      expect(false).toBe(true)
+    } catch (_) {
+      expect(_.code).toBe('ETIMEDOUT')
+      expect(_.result.timedOut).toBe(true)
+      expect(_.results.length).toBe(1)
+    }
+  })
+  sshit('rejects shell commands when sudo rejects the password', async function(port, client) {
+    const path = process.env.PATH
+    // A stand-in for sudo that turns every password down
+    process.env.PATH = `${getFixturePath('bin')}:${path}`
+    try {
+      await connectWithPassword(port, client)
+      client.enableSudoMode('wrong')
+      await client.runCommandsInShell(['whoami'], true)
+      expect(false).toBe(true)
+    } catch (_) {
+      expect(_ instanceof AuthenticationError).toBe(true)
+      expect(_.message).toBe('sudo rejected the given password')
+    } finally {
+      process.env.PATH = path
+    }
+  })
   sshit('exec with correct cwd', async function(port, client) {
     await connectWithPassword(port, client)
     const result = await client.exec('pwd', [], { cwd: '/etc' })
     expect(result).toBe('/etc')
+    try {
+      await client.exec('pwd', [], { cwd: getFixturePath('ignored/non-existent') })
+      expect(false).toBe(true)
+    } catch (_) {
+      expect(_.code).toBe('ECWD')
+    }
+  })
+  sshit('fails on exit codes when asked to', async function(port, client) {
+    await connectWithPassword(port, client)
+    const command = 'echo progress >&2; echo done'
+    expect(await client.exec('sh', ['-c', command], { failOn: 'exitCode' })).toBe('done')
+    try {
+      await client.exec('sh', ['-c', 'exit 3'], { failOn: 'exitCode' })
+      expect(false).toBe(true)
+    } catch (_) {
+      expect(_ instanceof CommandFailedError).toBe(true)
+      expect(_.exitCode).toBe(3)
+    }
+    expect((await client.execCommand('exit 3')).code).toBe(3)
+  })
+  sshit('passes environment variables and keeps raw output', async function(port, client) {
+    await connectWithPassword(port, client)
+    const env = { GREETING: "it's $HOME" }
+    expect(await client.exec('sh', ['-c', 'echo "$GREETING"'], { env })).toBe("it's $HOME")
+    expect((await client.execCommand('printf " a \\n"', { raw: true })).stdout).toBe(' a \n')
+    const { stdout } = await client.execCommand('printf "\\377\\000"', { binary: true })
+    expect(Buffer.isBuffer(stdout)).toBe(true)
+    expect(stdout.equals(new Buffer([255, 0]))).toBe(true)
   })
   sshit('throws if stream is stdout and stuff is written to stderr', async function(port, client) {
     await connectWithPassword(port, client)
@@ -138,6 +286,10 @@ describe('SSH2', function() {
       expect(false).toBe(true)
     } catch (_) {
       expect(_.message).toBe('Test')
+      expect(_ instanceof CommandFailedError).toBe(true)
+      expect(_.command).toBe('node -e \'console.error("Test")\'')
+      expect(_.exitCode).toBe(0)
+      expect(_.stderr).toBe('Test')
     }
   })
   sshit('does not throw if stream is stderr and is written to', async function(port, client) {
@@ -157,6 +309,39 @@ describe('SSH2', function() {
     const result = await client.exec('node', ['-e', 'process.stdin.pipe(process.stdout)'], { stdin: 'Twinkle!\nStars!' })
     expect(result).toBe('Twinkle!\nStars!')
   })
+  sshit('streams output chunks as they arrive', async function(port, client) {
+    await connectWithPassword(port, client)
+    const stdout = []
+    const stderr = []
+    await client.execCommand('node -e \'console.log("STDOUT"); console.error("STDERR")\'', {
+      onStdout(chunk) { stdout.push(chunk.toString()) },
+      onStderr(chunk) { stderr.push(chunk.toString()) },
+    })
+    expect(stdout.join('').trim()).toBe('STDOUT')
+    expect(stderr.join('').trim()).toBe('STDERR')
+  })
+  sshit('rejects commands that exceed their timeout', async function(port, client) {
+    await connectWithPassword(port, client)
+    try {
+      await client.execCommand('node -e \'setTimeout(function() {}, 5000)\'', { timeout: 100 })
+      expect(false).toBe(true)
+    } catch (_) {
+      expect(_.message).toBe('Command timed out after 100ms')
+      expect(_.code).toBe('ETIMEDOUT')
+    }
+  })
+  sshit('cancels commands through a signal', async function(port, client) {
+    await connectWithPassword(port, client)
+    const signal = createCancelSignal()
+    setTimeout(() => signal.abort(), 100)
+    try {
+      await client.execCommand('node -e \'setTimeout(function() {}, 5000)\'', { signal })
+      expect(false).toBe(true)
+    } catch (_) {
+      expect(_.message).toBe('Operation was cancelled')
+      expect(_.code).toBe('ECANCELED')
+    }
+  })
   sshit('gets files properly', async function(port, client) {
     await connectWithPassword(port, client)
     const sourceFile = __filename
@@ -175,6 +360,137 @@ describe('SSH2', function() {
     expect(await exists(targetFile)).toBe(true)
     expect(FS.readFileSync(targetFile, 'utf8').trim()).toBe(FS.readFileSync(sourceFile, 'utf8').trim())
   })
+  sshit('uploads atomically and verifies checksums', async function(port, client) {
+    await connectWithPassword(port, client)
+    const sourceFile = __filename
+    const targetFile = getFixturePath('ignored/atomic/test-put')
+    await client.putFile(getFixturePath('id_rsa.pub'), targetFile)
+    await client.putFile(sourceFile, targetFile, null, { atomic: true, verify: true })
+    expect(FS.readFileSync(targetFile, 'utf8')).toBe(FS.readFileSync(sourceFile, 'utf8'))
+    expect(FS.readdirSync(getFixturePath('ignored/atomic'))).toEqual(['test-put'])
+  })
+  sshit('rejects verified uploads when the server can not compute checksums', async function(port, client) {
+    const path = process.env.PATH
+    // A stand-in for sha256sum that is not there
+    process.env.PATH = `${getFixturePath('bin')}:${path}`
+    try {
+      await connectWithPassword(port, client)
+      await client.putFile(__filename, getFixturePath('ignored/unverified'), null, { verify: true })
+      expect(false).toBe(true)
+    } catch (_) {
+      expect(_ instanceof TransferError).toBe(true)
+      expect(_.code).toBe('ENOTSUP')
+      expect(_.message).toBe('Checksum verification is unavailable: sha256sum: command not found')
+    } finally {
+      process.env.PATH = path
+    }
+  })
+  sshit('keeps the mode of files that are replaced atomically', async function(port, client) {
+    await connectWithPassword(port, client)
+    const targetFile = getFixturePath('ignored/atomic-mode/run.sh')
+    await client.putFile(getFixturePath('id_rsa.pub'), targetFile)
+    FS.chmodSync(targetFile, 0o750)
+    await client.putFile(__filename, targetFile, null, { atomic: true })
+    expect(FS.statSync(targetFile).mode & 0o777).toBe(0o750)
+    expect(FS.readFileSync(targetFile, 'utf8')).toBe(FS.readFileSync(__filename, 'utf8'))
+  })
+  sshit('preserves modes, times and symlinks', async function(port, client) {
+    await connectWithPassword(port, client)
+    const sourceDirectory = getFixturePath('ignored/preserve-source')
+    const targetDirectory = getFixturePath('ignored/preserve-target')
+    FS.mkdirSync(sourceDirectory)
+    FS.writeFileSync(Path.join(sourceDirectory, 'run.sh'), '#!/bin/sh\n')
+    FS.chmodSync(Path.join(sourceDirectory, 'run.sh'), 0o750)
+    FS.utimesSync(Path.join(sourceDirectory, 'run.sh'), 1000000, 1000000)
+    FS.symlinkSync('run.sh', Path.join(sourceDirectory, 'link'))
+    await client.putDirectory(sourceDirectory, targetDirectory, {}, null, {
+      preserveMode: true,
+      preserveTimes: true,
+      symlinks: 'copy',
+    })
+    const stats = FS.statSync(Path.join(targetDirectory, 'run.sh'))
+    expect(stats.mode & 0o777).toBe(0o750)
+    expect(stats.mtime.getTime()).toBe(1000000 * 1000)
+    expect(FS.readlinkSync(Path.join(targetDirectory, 'link'))).toBe('run.sh')
+  })
+  sshit('reuses sftp sessions between calls', async function(port, client) {
+    await connectWithPassword(port, client)
+    let opened = 0
+    const openSftp = client.connection.sftp
+    client.connection.sftp = function(...args) {
+      opened++
+      return openSftp.apply(this, args)
+    }
+    await client.putFile(__filename, getFixturePath('ignored/reused-a'))
+    await client.putFiles([{ local: __filename, remote: getFixturePath('ignored/reused-b') }])
+    await client.getFile(getFixturePath('ignored/reused-c'), getFixturePath('ignored/reused-a'))
+    await client.mkdir(getFixturePath('ignored/reused-d'))
+    expect(opened).toBe(1)
+  })
+  sshit('reads and writes remote files through the remote fs', async function(port, client) {
+    await connectWithPassword(port, client)
+    const remoteFS = await client.requestFS()
+    const targetFile = getFixturePath('ignored/test.conf')
+    await remoteFS.writeFile(targetFile, 'hello=1\n', { mode: 0o600 })
+    await remoteFS.writeFile(targetFile, 'world=2\n', { flag: 'a' })
+    expect(await remoteFS.readFile(targetFile, 'utf8')).toBe('hello=1\nworld=2\n')
+    expect(await remoteFS.exists(targetFile)).toBe(true)
+    expect(await remoteFS.exists(getFixturePath('ignored/non-existent'))).toBe(false)
+    remoteFS.end()
+  })
+  sshit('manages remote files and directories through the remote fs', async function(port, client) {
+    await connectWithPassword(port, client)
+    const remoteFS = await client.requestFS()
+    FS.mkdirSync(getFixturePath('ignored/dir'))
+    FS.writeFileSync(getFixturePath('ignored/dir/file'), 'contents')
+    await remoteFS.symlink(getFixturePath('ignored/dir/file'), getFixturePath('ignored/link'))
+    expect(await remoteFS.readlink(getFixturePath('ignored/link'))).toBe(getFixturePath('ignored/dir/file'))
+    const entries = (await remoteFS.readdir(getFixturePath('ignored'))).map(entry => `${entry.name}:${entry.type}`)
+    expect(entries).toContain('dir:directory')
+    expect(entries).toContain('link:symlink')
+    await remoteFS.rename(getFixturePath('ignored/link'), getFixturePath('ignored/renamed'))
+    await remoteFS.chmod(getFixturePath('ignored/dir/file'), 0o640)
+    expect(FS.statSync(getFixturePath('ignored/dir/file')).mode & 0o777).toBe(0o640)
+    await remoteFS.unlink(getFixturePath('ignored/renamed'))
+    await remoteFS.rm(getFixturePath('ignored/dir'), true)
+    expect(await exists(getFixturePath('ignored/dir'))).toBe(false)
+    try {
+      await remoteFS.stat(getFixturePath('ignored/dir'))
+      expect(false).toBe(true)
+    } catch (error) {
+      expect(error.code).toBe('ENOENT')
+    }
+    remoteFS.end()
+  })
+  sshit('puts streams and contents creating missing directories', async function(port, client) {
+    await connectWithPassword(port, client)
+    const targetFile = getFixturePath('ignored/nested/test-stream')
+    await client.putStream(FS.createReadStream(__filename), targetFile)
+    expect(FS.readFileSync(targetFile, 'utf8')).toBe(FS.readFileSync(__filename, 'utf8'))
+
+    const configFile = getFixturePath('ignored/nested/deeper/test.conf')
+    await client.putContent('hello=1\n', configFile, null, { mode: 0o600 })
+    await client.putContent(new Buffer('world=2\n'), configFile, null, { append: true })
+    expect(FS.readFileSync(configFile, 'utf8')).toBe('hello=1\nworld=2\n')
+    expect(FS.statSync(configFile).mode & 0o777).toBe(0o600)
+  })
+  sshit('gets remote files as streams', async function(port, client) {
+    await connectWithPassword(port, client)
+    const readable = await client.getStream(__filename)
+    const chunks = []
+    await new Promise(function(resolve, reject) {
+      readable.on('data', chunk => chunks.push(chunk))
+      readable.on('error', reject)
+      readable.on('end', resolve)
+    })
+    expect(Buffer.concat(chunks).toString()).toBe(FS.readFileSync(__filename, 'utf8'))
+    try {
+      await client.getStream(getFixturePath('ignored/non-existent'))
+      expect(false).toBe(true)
+    } catch (error) {
+      expect(error.code).toBe('ENOENT')
+    }
+  })
   sshit('puts multiple files properly', async function(port, client) {
     await connectWithPassword(port, client)
 
@@ -197,6 +513,30 @@ describe('SSH2', function() {
       expect(await exists(file.remote)).toBe(true)
     }
   })
+  sshit('stops scheduling files once cancelled', async function(port, client) {
+    await connectWithPassword(port, client)
+    const files = [
+      { local: getFixturePath('multiple/aa'), remote: getFixturePath('ignored/aa') },
+      { local: getFixturePath('multiple/bb'), remote: getFixturePath('ignored/bb') },
+      { local: getFixturePath('multiple/cc'), remote: getFixturePath('ignored/cc') },
+    ]
+    const signal = createCancelSignal()
+    try {
+      await client.putFiles(files, null, 1, {
+        signal,
+        onProgress(progress) {
+          if (progress.filesCompleted === 1) {
+            signal.abort()
+          }
+        },
+      })
+      expect(false).toBe(true)
+    } catch (_) {
+      expect(_ instanceof CancelledError).toBe(true)
+      expect(_.transferred).toEqual([files[0]])
+    }
+    expect(await exists(files[2].remote)).toBe(false)
+  })
   sshit('puts entire directories at once', async function(port, client) {
     await connectWithPassword(port, client)
     const remoteFiles = [
@@ -230,4 +570,351 @@ describe('SSH2', function() {
       expect(await exists(file)).toBe(true)
     }
   })
+  sshit('gets entire directories at once', async function(port, client) {
+    await connectWithPassword(port, client)
+    const localFiles = [
+      getFixturePath('ignored/aa'),
+      getFixturePath('ignored/ee/ff'),
+      getFixturePath('ignored/jj'),
+      getFixturePath('ignored/really/really/really/really/yes/deep files'),
+      getFixturePath('ignored/really/really/really/really/deep'),
+    ]
+    for (const file of localFiles) {
+      expect(await exists(file)).toBe(false)
+    }
+    const ticked = []
+    const status = await client.getDirectory(getFixturePath('ignored'), getFixturePath('multiple'), {
+      tick(local, remote, error) {
+        expect(error).toBe(null)
+        ticked.push(local)
+      },
+    })
+    expect(status).toBe(true)
+    expect(ticked.length).toBe(13)
+    for (const file of localFiles) {
+      expect(await exists(file)).toBe(true)
+    }
+  })
+  sshit('syncs directories incrementally', async function(port, client) {
+    await connectWithPassword(port, client)
+    const local = getFixturePath('ignored/sync-local')
+    const remote = getFixturePath('ignored/sync-remote')
+    FS.mkdirSync(local)
+    FS.mkdirSync(Path.join(local, 'sub'))
+    FS.writeFileSync(Path.join(local, 'a'), 'first')
+    FS.writeFileSync(Path.join(local, 'sub', 'b'), 'second')
+
+    let result = await client.syncDirectory(local, remote)
+    expect(result.successful).toBe(true)
+    expect(result.uploaded.map(file => file.remote).sort()).toEqual([`${remote}/a`, `${remote}/sub/b`])
+    expect(FS.readFileSync(Path.join(remote, 'sub', 'b'), 'utf8')).toBe('second')
+
+    result = await client.syncDirectory(local, remote)
+    expect(result.uploaded.length).toBe(0)
+    expect(result.skipped.length).toBe(2)
+
+    // Same size and time, only a checksum tells the contents apart
+    const { atime, mtime } = FS.statSync(Path.join(local, 'a'))
+    FS.writeFileSync(Path.join(local, 'a'), 'FIRST')
+    FS.utimesSync(Path.join(local, 'a'), atime, mtime)
+    result = await client.syncDirectory(local, remote)
+    expect(result.uploaded.length).toBe(0)
+    result = await client.syncDirectory(local, remote, { checksum: true })
+    expect(result.uploaded.map(file => file.remote)).toEqual([`${remote}/a`])
+    expect(FS.readFileSync(Path.join(remote, 'a'), 'utf8')).toBe('FIRST')
+
+    FS.writeFileSync(Path.join(remote, 'stale'), 'stale')
+    FS.mkdirSync(Path.join(remote, 'olddir'))
+    FS.mkdirSync(Path.join(remote, 'olddir', 'empty'))
+    FS.writeFileSync(Path.join(remote, 'olddir', 'y'), 'y')
+    result = await client.syncDirectory(local, remote)
+    expect(result.deleted.length).toBe(0)
+    expect(await exists(Path.join(remote, 'stale'))).toBe(true)
+    result = await client.syncDirectory(local, remote, { delete: true })
+    expect(result.successful).toBe(true)
+    expect(result.deleted.sort()).toEqual([
+      `${remote}/olddir`,
+      `${remote}/olddir/empty`,
+      `${remote}/olddir/y`,
+      `${remote}/stale`,
+    ])
+    expect(await exists(Path.join(remote, 'olddir'))).toBe(false)
+    expect(await exists(Path.join(remote, 'sub', 'b'))).toBe(true)
+  })
+  sshit('streams entire directories through tar', async function(port, client) {
+    await connectWithPassword(port, client)
+    const ticked = []
+    const tick = function(local, remote, error) {
+      expect(error).toBe(null)
+      ticked.push(remote)
+    }
+    const uploaded = getFixturePath('ignored/tar')
+    const downloaded = getFixturePath('ignored/untar')
+    expect(await client.putDirectory(getFixturePath('multiple'), uploaded, { transport: 'tar', tick })).toBe(true)
+    expect(ticked.length).toBe(13)
+    expect(await exists(Path.join(uploaded, 'really/really/really/really/yes/deep files'))).toBe(true)
+    expect(await client.getDirectory(downloaded, uploaded, { transport: 'tar', tick })).toBe(true)
+    expect(ticked.length).toBe(26)
+    expect(FS.readFileSync(Path.join(downloaded, 'ee/ff'), 'utf8')).toBe(FS.readFileSync(getFixturePath('multiple/ee/ff'), 'utf8'))
+  })
+  sshit('reads the tar listing from stderr the way BSD tar prints it', async function(port, client) {
+    await connectWithPassword(port, client)
+    const bin = getFixturePath('ignored/bsdtar-bin')
+    FS.mkdirSync(bin)
+    const realTar = ChildProcess.execSync('command -v tar', { encoding: 'utf8' }).trim()
+    FS.writeFileSync(Path.join(bin, 'tar'), `#!/bin/bash\nset -o pipefail\n{ ${realTar} "$@" | sed 's/^/x /'; } 1>&2\n`)
+    FS.chmodSync(Path.join(bin, 'tar'), 0o755)
+    const { PATH } = process.env
+    process.env.PATH = `${bin}:${PATH}`
+    try {
+      const ticked = []
+      const failed = []
+      const uploaded = getFixturePath('ignored/bsdtar')
+      // tar can't replace a directory that isn't empty with a file, it carries on with the rest
+      ChildProcess.execSync(`mkdir -p ${Path.join(uploaded, 'ee/ff/taken')}`)
+      expect(await client.putDirectory(getFixturePath('multiple'), uploaded, {
+        transport: 'tar',
+        tick(local, remote, error) {
+          (error ? failed : ticked).push(error || remote)
+        },
+      })).toBe(false)
+      expect(ticked.length).toBe(12)
+      expect(ticked).toContain(`${uploaded}/aa`)
+      expect(failed.length).toBe(1)
+      expect(failed[0].message).toContain('ee/ff')
+      expect(failed[0].message).not.toContain('x aa')
+    } finally {
+      process.env.PATH = PATH
+    }
+  })
+  sshit('reports aggregate progress of directory transfers', async function(port, client) {
+    await connectWithPassword(port, client)
+    const updates = []
+    await client.putDirectory(getFixturePath('multiple'), getFixturePath('ignored'), {}, null, {
+      onProgress(progress) {
+        updates.push(progress)
+      },
+    })
+    const last = updates[updates.length - 1]
+    expect(last.filesTotal).toBe(13)
+    expect(last.filesCompleted).toBe(13)
+    expect(last.transferred).toBe(last.total)
+    expect(updates.every(progress => progress.transferred <= progress.total)).toBe(true)
+  })
+  sshit('tails remote files', async function(port, client) {
+    await connectWithPassword(port, client)
+    const logPath = getFixturePath('ignored/tailed.log')
+    FS.writeFileSync(logPath, 'first\nsecond\n')
+    const tail = await client.tail(logPath, { lines: 1 })
+    try {
+      const lines = []
+      tail.on('line', line => lines.push(line))
+      await tail.waitFor('second')
+      FS.appendFileSync(logPath, 'server is ready\n')
+      expect(await tail.waitFor(/ready/, 5000)).toBe('server is ready')
+      expect(lines).toEqual(['second', 'server is ready'])
+    } finally {
+      await tail.close()
+    }
+  })
+  sshit('watches remote directories for changes', async function(port, client) {
+    await connectWithPassword(port, client)
+    const watchedPath = getFixturePath('ignored/watched')
+    FS.mkdirSync(watchedPath)
+    FS.writeFileSync(Path.join(watchedPath, 'a'), 'a')
+    const watcher = await client.watch(watchedPath, { interval: 50 })
+    try {
+      const created = await new Promise(function(resolve) {
+        watcher.once('create', resolve)
+        FS.writeFileSync(Path.join(watchedPath, 'b'), 'b')
+      })
+      expect(created).toBe(Path.join(watchedPath, 'b'))
+      const deleted = await new Promise(function(resolve) {
+        watcher.once('delete', resolve)
+        FS.unlinkSync(Path.join(watchedPath, 'a'))
+      })
+      expect(deleted).toBe(Path.join(watchedPath, 'a'))
+    } finally {
+      await watcher.close()
+    }
+  })
+  sshit('logs and audits commands with secrets redacted', async function(port) {
+    const messages = []
+    const audited = []
+    const log = message => messages.push(message)
+    const client = new SSH2(null, {
+      logger: { debug: log, info: log, warn: log, error: log },
+      audit: entry => audited.push(entry),
+    })
+    try {
+      await client.connect({ host: '127.0.0.1', port, username: 'steel', password: 'hunter2' })
+      expect((await client.execCommand('echo hunter2', { cwd: '/etc' })).stdout).toBe('hunter2')
+    } finally {
+      client.dispose()
+    }
+    expect(messages.length > 0).toBe(true)
+    expect(messages.every(message => message.indexOf('hunter2') === -1)).toBe(true)
+    expect(audited.length).toBe(1)
+    expect(audited[0].command).toBe('echo [REDACTED]')
+    expect(audited[0].cwd).toBe('/etc')
+    expect(audited[0].host).toBe('127.0.0.1')
+    expect(audited[0].username).toBe('steel')
+    expect(audited[0].code).toBe(0)
+    expect(audited[0].error).toBe(null)
+  })
+  sshit('audits commands on connections over a socket of their own', async function(port) {
+    const messages = []
+    const audited = []
+    const log = message => messages.push(message)
+    const client = new SSH2(null, {
+      logger: { debug: log, info: log, warn: log, error: log },
+      audit: entry => audited.push(entry),
+    })
+    const sock = net.connect(port, '127.0.0.1')
+    await new Promise(resolve => sock.once('connect', resolve))
+    try {
+      await client.connect({ sock, username: 'steel', password: 'password' })
+      await client.execCommand('true')
+    } finally {
+      client.dispose()
+    }
+    expect(audited[0].host).toBe('sock')
+    expect(messages.every(message => message.indexOf('undefined') === -1)).toBe(true)
+  })
+  sshit('runs commands across a pool of hosts', async function(port) {
+    const config = { host: '127.0.0.1', port, username: 'steel', password: 'password' }
+    const pool = new SSHPool([config, Object.assign({}, config), { host: '127.0.0.1', port: port + 1000 }], {
+      concurrency: 2,
+    })
+    try {
+      const results = await pool.execCommand('echo hello')
+      expect(results.length).toBe(3)
+      expect(results[0].result.stdout).toBe('hello')
+      expect(results[1].result.stdout).toBe('hello')
+      expect(results[2].error instanceof Error).toBe(true)
+    } finally {
+      pool.dispose()
+    }
+  })
+  sshit('emits lifecycle events', async function(port, client) {
+    const events = []
+    client.on('connecting', () => events.push('connecting'))
+    client.on('ready', () => events.push('ready'))
+    client.on('closed', () => events.push('closed'))
+    await connectWithPassword(port, client)
+    client.dispose()
+    expect(events).toEqual(['connecting', 'ready', 'closed'])
+  })
+  sshit('emits reconnecting as soon as the connection drops', async function(port) {
+    const client = new SSH2(null, { reconnect: true, retryDelay: 10 })
+    const events = []
+    try {
+      await connectWithPassword(port, client)
+      client.on('reconnecting', (attempt, delay) => events.push(`reconnecting ${attempt} ${delay}`))
+      client.on('connecting', attempt => events.push(`connecting ${attempt}`))
+      const ready = new Promise(resolve => client.once('ready', resolve))
+      client.connection.end()
+      await ready
+      expect(events).toEqual(['reconnecting 0 0', 'connecting 1'])
+    } finally {
+      client.dispose()
+    }
+  })
+  sshit('retries the initial connection with a backoff', async function(port) {
+    const client = new SSH2(null, { retries: 2, retryDelay: 10 })
+    const delays = []
+    client.on('reconnecting', (attempt, delay) => delays.push(delay))
+    try {
+      await client.connect({ host: '127.0.0.1', port: port + 1000, username: 'steel', password: 'password' })
+      expect(false).toBe(true)
+    } catch (_) {
+      expect(_.code).toBe('ECONNREFUSED')
+    }
+    expect(delays).toEqual([10, 20])
+  })
+  sshit('connects through jump hosts', async function(port, client, server) {
+    const connections = []
+    server.on('connection', connection => connections.push(connection))
+    const hop = { host: '127.0.0.1', port, username: 'steel', password: 'password' }
+    await client.connect({
+      host: '127.0.0.1',
+      port,
+      username: 'steel',
+      password: 'password',
+      jump: [hop, hop],
+    })
+    expect(await client.exec('echo', ['through'])).toBe('through')
+    expect(connections.length).toBe(3)
+    const closed = Promise.all(connections.map(connection => new Promise(resolve => connection.once('end', resolve))))
+    client.dispose()
+    await closed
+  })
+  sshit('forwards local ports to remote hosts', async function(port, client) {
+    await connectWithPassword(port, client)
+    const echoServer = net.createServer(socket => socket.pipe(socket))
+    await new Promise(resolve => echoServer.listen(0, '127.0.0.1', resolve))
+    try {
+      const forward = await client.forwardLocal(0, '127.0.0.1', echoServer.address().port)
+      const socket = net.connect(forward.port, '127.0.0.1')
+      socket.write('ping')
+      const response = await new Promise(resolve => socket.once('data', resolve))
+      expect(response.toString()).toBe('ping')
+      expect(forward.stats.connections).toBe(1)
+      socket.destroy()
+      await forward.close()
+    } finally {
+      echoServer.close()
+    }
+  })
+  sshit('forwards remote ports to local hosts', async function(port, client) {
+    await connectWithPassword(port, client)
+    const echoServer = net.createServer(socket => socket.pipe(socket))
+    await new Promise(resolve => echoServer.listen(0, '127.0.0.1', resolve))
+    try {
+      const forward = await client.forwardRemote(0, '127.0.0.1', echoServer.address().port)
+      expect(forward.port > 0).toBe(true)
+      const socket = net.connect(forward.port, '127.0.0.1')
+      socket.write('ping')
+      const response = await new Promise(resolve => socket.once('data', resolve))
+      expect(response.toString()).toBe('ping')
+      expect(forward.stats.connections).toBe(1)
+      socket.destroy()
+      await forward.close()
+    } finally {
+      echoServer.close()
+    }
+  })
+  sshit('forwards connections through a dynamic SOCKS proxy', async function(port, client) {
+    await connectWithPassword(port, client)
+    const echoServer = net.createServer(socket => socket.pipe(socket))
+    await new Promise(resolve => echoServer.listen(0, '127.0.0.1', resolve))
+    try {
+      const forward = await client.forwardDynamic(0)
+      const socket = net.connect(forward.port, '127.0.0.1')
+      const read = () => new Promise(resolve => socket.once('data', resolve))
+      socket.write(new Buffer([5, 1, 0]))
+      expect(Array.from(await read())).toEqual([5, 0])
+      // CONNECT to 127.0.0.1 on the port of the echo server
+      const request = new Buffer([5, 1, 0, 1, 127, 0, 0, 1, 0, 0])
+      request.writeUInt16BE(echoServer.address().port, 8)
+      socket.write(request)
+      expect((await read())[1]).toBe(0)
+      socket.write('ping')
+      expect((await read()).toString()).toBe('ping')
+      expect(forward.stats.connections).toBe(1)
+      socket.destroy()
+
+      // BIND is turned down as not supported
+      const unsupported = net.connect(forward.port, '127.0.0.1')
+      unsupported.write(new Buffer([5, 1, 0]))
+      await new Promise(resolve => unsupported.once('data', resolve))
+      unsupported.write(new Buffer([5, 2, 0, 1, 127, 0, 0, 1, 0, 80]))
+      const reply = await new Promise(resolve => unsupported.once('data', resolve))
+      expect(reply[1]).toBe(7)
+      unsupported.destroy()
+      await forward.close()
+    } finally {
+      echoServer.close()
+    }
+  })
 })
@@ -0,0 +1,46 @@
+/* @flow */
+
+import OS from 'os'
+import Path from 'path'
+import { it } from 'jasmine-fix'
+import { matchesHostPatterns, resolveSSHConfig } from '../src/ssh-config'
+
+describe('SSH Config', function() {
+  const configPath = Path.join(__dirname, 'fixtures', 'ssh-config', 'config')
+
+  describe('matchesHostPatterns', function() {
+    it('matches wildcards', function() {
+      expect(matchesHostPatterns('web1.example.com', ['*.example.com'])).toBe(true)
+      expect(matchesHostPatterns('web1', ['web?'])).toBe(true)
+      expect(matchesHostPatterns('web10', ['web?'])).toBe(false)
+    })
+    it('lets negated patterns win', function() {
+      expect(matchesHostPatterns('legacy.example.com', ['*.example.com', '!legacy.example.com'])).toBe(false)
+    })
+  })
+  describe('resolveSSHConfig', function() {
+    it('resolves an alias with the first value winning', async function() {
+      const config = await resolveSSHConfig('prod-db', configPath)
+      expect(config.host).toBe('db.internal.example.com')
+      expect(config.username).toBe('deploy')
+      expect(config.port).toBe(2222)
+      expect(config.privateKey).toBe(undefined)
+      expect(config.jump).toEqual([{ host: 'bastion', username: 'admin', port: 2200, sshConfig: configPath }])
+    })
+    it('applies wildcard blocks', async function() {
+      const config = await resolveSSHConfig('bastion', configPath)
+      expect(config.host).toBe('bastion.example.com')
+      expect(config.username).toBe('fallback')
+      expect(config.keepaliveInterval).toBe(undefined)
+      expect(config.hostKeyPolicy).toBe('accept-new')
+      expect(config.knownHosts).toBe(Path.join(OS.homedir(), '.ssh', 'bastion_known_hosts'))
+      expect((await resolveSSHConfig('web.example.com', configPath)).keepaliveInterval).toBe(15000)
+      expect((await resolveSSHConfig('legacy.example.com', configPath)).keepaliveInterval).toBe(undefined)
+    })
+    it('follows includes', async function() {
+      const config = await resolveSSHConfig('staging', configPath)
+      expect(config.host).toBe('staging.example.com')
+      expect(config.username).toBe('stage')
+    })
+  })
+})
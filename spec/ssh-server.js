@@ -1,6 +1,8 @@
 /* @flow */
 
 import FS from 'fs'
+import Path from 'path'
+import net from 'net'
 import { SFTPStream } from 'ssh2-streams'
 import ChildProcess from 'child_process'
 
@@ -13,13 +15,13 @@ const STATUS_CODE = ssh2.SFTP_STATUS_CODE
 function handleSFTP(accept) {
   const sftpStream = accept()
   const handles: Set<number> = new Set()
+  const directoryHandles: Map<string, ?Array<string>> = new Map()
   sftpStream.on('OPEN', function(reqid, filename, flags) {
     let handleId
     try {
       handleId = FS.openSync(filename, SFTPStream.flagsToString(flags))
     } catch (error) {
-      console.error(error)
-      sftpStream.status(reqid, STATUS_CODE.FAILURE)
+      sftpStream.status(reqid, STATUS_CODE.FAILURE, error.message)
       return
     }
     handles.add(handleId)
@@ -36,13 +38,18 @@ function handleSFTP(accept) {
     }
 
     const contents = new Buffer(length)
+    let bytesRead
     try {
-      FS.readSync(handle, contents, 0, length, offset)
+      bytesRead = FS.readSync(handle, contents, 0, length, offset)
     } catch (error) {
       sftpStream.status(reqid, STATUS_CODE.FAILURE)
       return
     }
-    sftpStream.data(reqid, contents)
+    if (bytesRead === 0) {
+      sftpStream.status(reqid, STATUS_CODE.EOF)
+      return
+    }
+    sftpStream.data(reqid, contents.slice(0, bytesRead))
   })
   sftpStream.on('WRITE', function(reqid, givenHandle, offset, data) {
     const handle = parseInt(givenHandle, 10)
@@ -76,7 +83,30 @@ function handleSFTP(accept) {
     }
     sftpStream.attrs(reqid, stats)
   })
+  sftpStream.on('FSETSTAT', function(reqid, givenHandle, attrs) {
+    const handle = parseInt(givenHandle, 10)
+    if (!handles.has(handle)) {
+      sftpStream.status(reqid, STATUS_CODE.FAILURE)
+      return
+    }
+
+    try {
+      if (typeof attrs.mode === 'number') {
+        FS.fchmodSync(handle, attrs.mode)
+      }
+      if (typeof attrs.atime === 'number' && typeof attrs.mtime === 'number') {
+        FS.futimesSync(handle, attrs.atime, attrs.mtime)
+      }
+      sftpStream.status(reqid, STATUS_CODE.OK)
+    } catch (error) {
+      sftpStream.status(reqid, STATUS_CODE.FAILURE, error.message)
+    }
+  })
   sftpStream.on('CLOSE', function(reqid, givenHandle) {
+    if (directoryHandles.delete(givenHandle.toString())) {
+      sftpStream.status(reqid, STATUS_CODE.OK)
+      return
+    }
     const handle = parseInt(givenHandle, 10)
     if (handles.has(handle)) {
       handles.delete(handle)
@@ -86,6 +116,36 @@ function handleSFTP(accept) {
       sftpStream.status(reqid, STATUS_CODE.FAILURE)
     }
   })
+  sftpStream.on('OPENDIR', function(reqid, path) {
+    let entries
+    try {
+      entries = FS.readdirSync(path).map(entry => Path.join(path, entry))
+    } catch (error) {
+      sftpStream.status(reqid, STATUS_CODE.FAILURE, error.message)
+      return
+    }
+    const handleId = `dir-${directoryHandles.size}-${Date.now()}`
+    directoryHandles.set(handleId, entries)
+    sftpStream.handle(reqid, new Buffer(handleId))
+  })
+  sftpStream.on('READDIR', function(reqid, givenHandle) {
+    const handle = givenHandle.toString()
+    if (!directoryHandles.has(handle)) {
+      sftpStream.status(reqid, STATUS_CODE.FAILURE)
+      return
+    }
+    const entries = directoryHandles.get(handle)
+    if (!entries) {
+      sftpStream.status(reqid, STATUS_CODE.EOF)
+      return
+    }
+    directoryHandles.set(handle, null)
+    sftpStream.name(reqid, entries.map(entry => ({
+      filename: Path.basename(entry),
+      longname: Path.basename(entry),
+      attrs: FS.lstatSync(entry),
+    })))
+  })
   sftpStream.on('MKDIR', function(reqid, path, attrs) {
     try {
       FS.mkdirSync(path, attrs.mode)
@@ -102,6 +162,75 @@ function handleSFTP(accept) {
       sftpStream.status(reqid, STATUS_CODE.FAILURE, error.message)
     }
   })
+  sftpStream.on('LSTAT', function(reqid, path) {
+    try {
+      sftpStream.attrs(reqid, FS.lstatSync(path))
+    } catch (error) {
+      sftpStream.status(reqid, STATUS_CODE.FAILURE, error.message)
+    }
+  })
+  sftpStream.on('SETSTAT', function(reqid, path, attrs) {
+    try {
+      if (typeof attrs.mode === 'number') {
+        FS.chmodSync(path, attrs.mode)
+      }
+      if (typeof attrs.uid === 'number' && typeof attrs.gid === 'number') {
+        FS.chownSync(path, attrs.uid, attrs.gid)
+      }
+      if (typeof attrs.atime === 'number' && typeof attrs.mtime === 'number') {
+        FS.utimesSync(path, attrs.atime, attrs.mtime)
+      }
+      sftpStream.status(reqid, STATUS_CODE.OK)
+    } catch (error) {
+      sftpStream.status(reqid, STATUS_CODE.FAILURE, error.message)
+    }
+  })
+  sftpStream.on('REMOVE', function(reqid, path) {
+    try {
+      FS.unlinkSync(path)
+      sftpStream.status(reqid, STATUS_CODE.OK)
+    } catch (error) {
+      sftpStream.status(reqid, STATUS_CODE.FAILURE, error.message)
+    }
+  })
+  sftpStream.on('RMDIR', function(reqid, path) {
+    try {
+      FS.rmdirSync(path)
+      sftpStream.status(reqid, STATUS_CODE.OK)
+    } catch (error) {
+      sftpStream.status(reqid, STATUS_CODE.FAILURE, error.message)
+    }
+  })
+  sftpStream.on('RENAME', function(reqid, oldPath, newPath) {
+    try {
+      FS.renameSync(oldPath, newPath)
+      sftpStream.status(reqid, STATUS_CODE.OK)
+    } catch (error) {
+      sftpStream.status(reqid, STATUS_CODE.FAILURE, error.message)
+    }
+  })
+  sftpStream.on('SYMLINK', function(reqid, linkPath, targetPath) {
+    try {
+      FS.symlinkSync(targetPath, linkPath)
+      sftpStream.status(reqid, STATUS_CODE.OK)
+    } catch (error) {
+      sftpStream.status(reqid, STATUS_CODE.FAILURE, error.message)
+    }
+  })
+  sftpStream.on('READLINK', function(reqid, path) {
+    try {
+      sftpStream.name(reqid, [{ filename: FS.readlinkSync(path) }])
+    } catch (error) {
+      sftpStream.status(reqid, STATUS_CODE.FAILURE, error.message)
+    }
+  })
+  sftpStream.on('REALPATH', function(reqid, path) {
+    try {
+      sftpStream.name(reqid, [{ filename: FS.realpathSync(path) }])
+    } catch (error) {
+      sftpStream.status(reqid, STATUS_CODE.FAILURE, error.message)
+    }
+  })
 }
 
 function handleSession(acceptSession) {
@@ -129,14 +258,74 @@ function handleSession(acceptSession) {
   })
   session.on('exec', function(accept, reject, info) {
     const response = accept()
-    const spawnedProcess = ChildProcess.exec(info.command)
+    if (ptyInfo) {
+      // Shells are started through exec with a pty, they only print prompts on a terminal
+      const terminal = pty.spawn('sh', ['-c', info.command], ptyInfo)
+      response.pipe(terminal.socket)
+      terminal.stdout.pipe(response, { end: false })
+      terminal.on('exit', function(code) {
+        response.exit(code)
+        response.end()
+      })
+      response.once('close', function() {
+        terminal.kill()
+      })
+      return
+    }
+    const spawnedProcess = ChildProcess.spawn(info.command, { shell: true })
     response.pipe(spawnedProcess.stdin)
-    spawnedProcess.stdout.pipe(response)
+    spawnedProcess.stdout.pipe(response, { end: false })
     spawnedProcess.stderr.pipe(response.stderr)
+    spawnedProcess.on('close', function(code) {
+      response.exit(code)
+      response.end()
+    })
+    // Long running commands like tail -F are stopped by closing the channel
+    response.once('close', function() {
+      spawnedProcess.kill()
+    })
   })
   session.on('sftp', handleSFTP)
 }
 
+function handleForwardRequests(client) {
+  const listeners: Map<string, net.Server> = new Map()
+  client.on('request', function(accept, reject, name, info) {
+    if (name === 'cancel-tcpip-forward') {
+      const key = `${info.bindAddr}:${info.bindPort}`
+      if (listeners.has(key)) {
+        listeners.get(key).close()
+        listeners.delete(key)
+      }
+      accept()
+      return
+    }
+    if (name !== 'tcpip-forward') {
+      reject()
+      return
+    }
+    const listener = net.createServer(function(socket) {
+      const { port } = listener.address()
+      client.forwardOut(info.bindAddr, port, socket.remoteAddress, socket.remotePort, function(error, channel) {
+        if (error) {
+          socket.destroy()
+          return
+        }
+        socket.pipe(channel).pipe(socket)
+      })
+    })
+    listener.on('error', reject)
+    listener.listen(info.bindPort, info.bindAddr, function() {
+      const { port } = listener.address()
+      listeners.set(`${info.bindAddr}:${port}`, listener)
+      accept(port)
+    })
+  })
+  client.on('end', function() {
+    listeners.forEach(listener => listener.close())
+  })
+}
+
 function handleAuthentication(ctx) {
   let accept = true
   if (ctx.method === 'password') {
@@ -155,6 +344,15 @@ export default function createServer() {
   }, function(client) {
     client.on('authentication', handleAuthentication)
     client.on('session', handleSession)
+    handleForwardRequests(client)
+    client.on('tcpip', function(accept, reject, info) {
+      const socket = net.connect(info.destPort, info.destIP)
+      socket.on('error', reject)
+      socket.on('connect', function() {
+        const channel = accept()
+        socket.pipe(channel).pipe(socket)
+      })
+    })
   })
   return server
 }
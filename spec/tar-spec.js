@@ -0,0 +1,75 @@
+/* @flow */
+
+import ChildProcess from 'child_process'
+import FS from 'fs'
+import OS from 'os'
+import Path from 'path'
+import Stream from 'stream'
+import { it } from 'jasmine-fix'
+import { TarParser, endTar, writeTarEntry } from '../src/tar'
+
+function createContents(contents) {
+  const readable = new Stream.PassThrough()
+  readable.end(contents)
+  return readable
+}
+
+function parse(archive) {
+  const entries = []
+  const parser = new TarParser(async function(entry, contents) {
+    const chunks = []
+    contents.on('data', chunk => chunks.push(chunk))
+    await new Promise(resolve => contents.on('end', resolve))
+    entries.push(Object.assign({ contents: Buffer.concat(chunks).toString() }, entry))
+  })
+  return new Promise(function(resolve, reject) {
+    parser.on('error', reject)
+    parser.on('finish', () => resolve(entries))
+    parser.end(archive)
+  })
+}
+
+describe('Tar', function() {
+  const longName = `${'directory/'.repeat(20)}${'file'.repeat(40)}`
+
+  async function pack() {
+    const chunks = []
+    const output = new Stream.PassThrough()
+    output.on('data', chunk => chunks.push(chunk))
+    const mtime = new Date(1500000000000)
+    await writeTarEntry(output, { name: 'script.sh', type: 'file', mode: 0o755, size: 7, mtime }, createContents('echo hi'))
+    await writeTarEntry(output, { name: longName, type: 'file', mode: 0o644, size: 4, mtime }, createContents('long'))
+    await writeTarEntry(output, { name: 'link', type: 'symlink', mode: 0o777, size: 0, mtime, linkname: 'script.sh' })
+    await endTar(output)
+    return Buffer.concat(chunks)
+  }
+
+  it('reads back what it writes', async function() {
+    const entries = await parse(await pack())
+    expect(entries.map(entry => entry.name)).toEqual(['script.sh', longName, 'link'])
+    expect(entries[0].mode).toBe(0o755)
+    expect(entries[0].contents).toBe('echo hi')
+    expect(entries[0].mtime.getTime()).toBe(1500000000000)
+    expect(entries[1].contents).toBe('long')
+    expect(entries[2].type).toBe('symlink')
+    expect(entries[2].linkname).toBe('script.sh')
+  })
+  it('writes archives that tar understands', async function() {
+    const directory = FS.mkdtempSync(Path.join(OS.tmpdir(), 'node-ssh-tar-'))
+    ChildProcess.execSync(`tar -xf - -C ${directory}`, { input: await pack() })
+    expect(FS.readFileSync(Path.join(directory, 'script.sh'), 'utf8')).toBe('echo hi')
+    expect(FS.readFileSync(Path.join(directory, longName), 'utf8')).toBe('long')
+    expect(FS.readlinkSync(Path.join(directory, 'link'))).toBe('script.sh')
+  })
+  it('rejects archives with broken headers', async function() {
+    const archive = await pack()
+    archive[0] = 0x41
+    let error
+    try {
+      await parse(archive)
+    } catch (_) {
+      error = _
+    }
+    expect(error && error.message).toBe('Invalid tar header checksum')
+  })
+})
@@ -0,0 +1,114 @@
+/* @flow */
+// tslint:disable:max-classes-per-file
+
+import { IExecCommandResult, ILocalRemotePair, IShellCommandResult } from "./types";
+
+// Every error of ours carries a code, checking that or the class beats matching on messages
+export class SSHError extends Error {
+    constructor(message: string, public code: string) {
+        super(message);
+        this.name = "SSHError";
+    }
+}
+
+export class ValidationError extends SSHError {
+    constructor(message: string) {
+        super(message, "EINVAL");
+        this.name = "ValidationError";
+    }
+}
+
+export class NotConnectedError extends SSHError {
+    constructor() {
+        super("Not connected to server", "ENOTCONN");
+        this.name = "NotConnectedError";
+    }
+}
+
+export class AuthenticationError extends SSHError {
+    constructor(message: string, public host: string = null, public username: string = null) {
+        super(message, "EAUTH");
+        this.name = "AuthenticationError";
+    }
+}
+
+export class HostKeyError extends SSHError {
+    constructor(message: string, public host: string) {
+        super(message, "EHOSTKEY");
+        this.name = "HostKeyError";
+    }
+}
+
+export class HostKeyMismatchError extends HostKeyError {
+    constructor(host: string, public expectedFingerprints: string[], public presentedFingerprint: string) {
+        super(`Host key for ${host} does not match the known hosts, expected ${expectedFingerprints.join(" or ")}` +
+            ` but was presented ${presentedFingerprint}`, host);
+        this.name = "HostKeyMismatchError";
+    }
+}
+
+export class HostKeyUnknownError extends HostKeyError {
+    constructor(host: string, public presentedFingerprint: string) {
+        super(`Host key for ${host} is not known, it was presented ${presentedFingerprint}`, host);
+        this.name = "HostKeyUnknownError";
+    }
+}
+
+export class CommandFailedError extends SSHError {
+    public exitCode: number;
+    public signal: string;
+    public stdout: string;
+    public stderr: string;
+
+    constructor(message: string,
+                public command: string,
+                result: IExecCommandResult<string | Buffer>,
+                code: string = "ECOMMAND") {
+        super(message, code);
+        this.name = "CommandFailedError";
+        this.exitCode = result.code;
+        this.signal = result.signal;
+        // NOTE: Binary output is decoded as well, errors are meant to be read
+        this.stdout = result.stdout.toString();
+        this.stderr = result.stderr.toString();
+    }
+}
+
+// runCommandsInShell stops at the first command that fails, results holds every command that ran up to it
+export class ShellCommandsError extends CommandFailedError {
+    constructor(message: string,
+                command: string,
+                public result: IShellCommandResult,
+                public results: IShellCommandResult[],
+                code: string = "ECOMMAND") {
+        super(message, command, result, code);
+        this.name = "ShellCommandsError";
+    }
+}
+
+export class TransferError extends SSHError {
+    // The underlying SFTP or file system error, if there was one
+    public cause: Error = null;
+
+    constructor(message: string,
+                public localPath: string,
+                public remotePath: string,
+                code: string = "ETRANSFER",
+                public transferred: ILocalRemotePair[] = []) {
+        super(message, code);
+        this.name = "TransferError";
+    }
+}
+
+export class CancelledError extends SSHError {
+    constructor(public transferred: ILocalRemotePair[] = [], public results: IShellCommandResult[] = []) {
+        super("Operation was cancelled", "ECANCELED");
+        this.name = "CancelledError";
+    }
+}
+
+export function validate(condition: any, message: string) {
+    if (!condition) {
+        throw new ValidationError(message);
+    }
+}
@@ -0,0 +1,239 @@
+/* @flow */
+
+import * as net from "net";
+import * as ssh2 from "ssh2";
+import * as helpers from "./helpers";
+import { IForwardHandle, IForwardStats } from "./types";
+
+const SOCKS_VERSION = 5;
+const SOCKS_NO_AUTHENTICATION = 0;
+const SOCKS_NO_ACCEPTABLE_METHODS = 0xff;
+const SOCKS_COMMAND_CONNECT = 1;
+const SOCKS_REPLY_SUCCEEDED = 0;
+const SOCKS_REPLY_GENERAL_FAILURE = 1;
+const SOCKS_REPLY_COMMAND_NOT_SUPPORTED = 7;
+
+function createStats(): IForwardStats {
+    return { activeConnections: 0, bytesReceived: 0, bytesSent: 0, connections: 0 };
+}
+
+function trackSocket(socket: net.Socket, sockets: Set<net.Socket>, stats: IForwardStats) {
+    stats.connections++;
+    stats.activeConnections++;
+    sockets.add(socket);
+
+    socket.once("close", () => {
+        stats.activeConnections--;
+        sockets.delete(socket);
+    });
+}
+
+function pipeCounted(socket: net.Socket, channel: ssh2.ClientChannel, stats: IForwardStats) {
+    socket.on("data", (chunk: Buffer) => {
+        stats.bytesSent += chunk.length;
+    });
+    channel.on("data", (chunk: Buffer) => {
+        stats.bytesReceived += chunk.length;
+    });
+
+    socket.on("error", () => channel.close());
+    channel.on("error", () => socket.destroy());
+    socket.once("close", () => channel.close());
+    channel.once("close", () => socket.destroy());
+
+    socket.pipe(channel).pipe(socket);
+}
+
+function forwardOut(connection: ssh2.Client, socket: net.Socket, host: string, port: number) {
+    return new Promise<ssh2.ClientChannel>((resolve, reject) => {
+        connection.forwardOut(socket.remoteAddress || "127.0.0.1", socket.remotePort || 0, host, port,
+            helpers.generateCallback(resolve, reject));
+    });
+}
+
+function listen(server: net.Server, port: number, host: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, host, () => {
+            server.removeListener("error", reject);
+            resolve(server.address().port);
+        });
+    });
+}
+
+function closeServer(server: net.Server, sockets: Set<net.Socket>): Promise<void> {
+    return new Promise<void>((resolve) => {
+        sockets.forEach((socket) => socket.destroy());
+        server.close(() => resolve());
+    });
+}
+
+function negotiateSocks(socket: net.Socket): Promise<helpers.ISocksRequest> {
+    return new Promise((resolve, reject) => {
+        let buffer = new Buffer(0);
+        let greeted = false;
+
+        const fail = (error: Error, reply: Buffer) => {
+            socket.removeListener("data", onData);
+            socket.end(reply);
+            reject(error);
+        };
+        const onData = (chunk: Buffer) => {
+            buffer = Buffer.concat([buffer, chunk]);
+
+            if (!greeted) {
+                if (buffer.length < 2) {
+                    return;
+                }
+                const greetingLength = 2 + buffer[1];
+                if (buffer.length < greetingLength) {
+                    return;
+                }
+                const methods = Array.prototype.slice.call(buffer.slice(2, greetingLength));
+                if (buffer[0] !== SOCKS_VERSION || methods.indexOf(SOCKS_NO_AUTHENTICATION) === -1) {
+                    fail(new Error("SOCKS client does not support unauthenticated connections"),
+                        new Buffer([SOCKS_VERSION, SOCKS_NO_ACCEPTABLE_METHODS]));
+                    return;
+                }
+                socket.write(new Buffer([SOCKS_VERSION, SOCKS_NO_AUTHENTICATION]));
+                buffer = buffer.slice(greetingLength);
+                greeted = true;
+            }
+
+            let request: helpers.ISocksRequest;
+            try {
+                request = helpers.parseSocksRequest(buffer);
+            } catch (error) {
+                fail(error, socksReply(SOCKS_REPLY_GENERAL_FAILURE));
+                return;
+            }
+            if (!request) {
+                return;
+            }
+            if (request.command !== SOCKS_COMMAND_CONNECT) {
+                fail(new Error("Only the SOCKS CONNECT command is supported"),
+                    socksReply(SOCKS_REPLY_COMMAND_NOT_SUPPORTED));
+                return;
+            }
+
+            socket.removeListener("data", onData);
+            socket.pause();
+            if (buffer.length > request.length) {
+                socket.unshift(buffer.slice(request.length));
+            }
+            resolve(request);
+        };
+
+        socket.on("data", onData);
+    });
+}
+
+function socksReply(status: number): Buffer {
+    return new Buffer([SOCKS_VERSION, status, 0, 1, 0, 0, 0, 0, 0, 0]);
+}
+
+export async function forwardLocal(connection: ssh2.Client,
+                                   localPort: number,
+                                   remoteHost: string,
+                                   remotePort: number,
+                                   localHost: string): Promise<IForwardHandle> {
+    const stats = createStats();
+    const sockets = new Set<net.Socket>();
+    const server = net.createServer((socket) => {
+        trackSocket(socket, sockets, stats);
+        socket.on("error", () => socket.destroy());
+
+        forwardOut(connection, socket, remoteHost, remotePort).then((channel) => {
+            pipeCounted(socket, channel, stats);
+        }, () => {
+            socket.destroy();
+        });
+    });
+
+    const port = await listen(server, localPort, localHost);
+
+    return {
+        close: () => closeServer(server, sockets),
+        port,
+        stats,
+        type: "local"
+    };
+}
+
+export async function forwardRemote(connection: ssh2.Client,
+                                    remotePort: number,
+                                    localHost: string,
+                                    localPort: number,
+                                    remoteHost: string): Promise<IForwardHandle> {
+    const stats = createStats();
+    const sockets = new Set<net.Socket>();
+    const port = await new Promise<number>((resolve, reject) => {
+        connection.forwardIn(remoteHost, remotePort, (error, bindPort) => {
+            if (error) {
+                reject(error);
+            } else {
+                resolve(bindPort || remotePort);
+            }
+        });
+    });
+
+    const onConnection = (details: ssh2.TcpConnectionDetails, accept: () => ssh2.ClientChannel) => {
+        // Every forwardIn on this connection shares the event, only take what was meant for us
+        if (details.destPort !== port) {
+            return;
+        }
+
+        const channel = accept();
+        const socket = net.connect(localPort, localHost);
+        trackSocket(socket, sockets, stats);
+        pipeCounted(socket, channel, stats);
+    };
+    connection.on("tcp connection", onConnection);
+
+    return {
+        close: () => new Promise<void>((resolve) => {
+            connection.removeListener("tcp connection", onConnection);
+            sockets.forEach((socket) => socket.destroy());
+            try {
+                connection.unforwardIn(remoteHost, port, () => resolve());
+            } catch (_) {
+                // The connection is already gone and took the forwarding with it
+                resolve();
+            }
+        }),
+        port,
+        stats,
+        type: "remote"
+    };
+}
+
+export async function forwardDynamic(connection: ssh2.Client,
+                                     localPort: number,
+                                     localHost: string): Promise<IForwardHandle> {
+    const stats = createStats();
+    const sockets = new Set<net.Socket>();
+    const server = net.createServer((socket) => {
+        trackSocket(socket, sockets, stats);
+        socket.on("error", () => socket.destroy());
+
+        negotiateSocks(socket).then((request) => {
+            return forwardOut(connection, socket, request.host, request.port).then((channel) => {
+                socket.write(socksReply(SOCKS_REPLY_SUCCEEDED));
+                pipeCounted(socket, channel, stats);
+            }, () => {
+                socket.end(socksReply(SOCKS_REPLY_GENERAL_FAILURE));
+            });
+        }).catch(() => {
+            /* No Op, the client has already been told why */
+        });
+    });
+
+    const port = await listen(server, localPort, localHost);
+
+    return {
+        close: () => closeServer(server, sockets),
+        port,
+        stats,
+        type: "dynamic"
+    };
+}
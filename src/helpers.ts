@@ -1,28 +1,96 @@
 /* @flow */
 
+import * as crypto from "crypto";
 import * as fs from "fs";
 import * as _ from "lodash";
 import * as path from "path";
 import { promisify } from "sb-promisify";
 import * as ssh2 from "ssh2";
-import { IPutDirectoryOptions } from "./types";
+import { FileEntry, Stats } from "ssh2-streams";
+import * as stream from "stream";
+import { CancelledError, SSHError, TransferError, ValidationError } from "./errors";
+import * as keys from "./keys";
+import { resolveSSHConfig } from "./ssh-config";
+import {
+    ICancelSignal,
+    IConnectConfig,
+    ILocalRemotePair,
+    ILogger,
+    IPoolOptions,
+    IPrivateKey,
+    IPutDirectoryOptions,
+    IPutStreamOptions,
+    IRunCommandsOptions,
+    ISSHOptions,
+    ISudoOptions,
+    ISyncDirectoryOptions,
+    ITailOptions,
+    ITransferOptions,
+    IWatchOptions
+} from "./types";
+
+import shellEscape = require("shell-escape");
 
 const CODE_REGEXP = /Error: (E[\S]+): /;
+export const SUDO_PROMPT = "[sudo] password for %p: ";
+export const SUDO_PROMPT_PATTERN = /^\[sudo\] password for.*$/;
+export const SUDO_REJECTED_PATTERN = /Sorry, try again\.|incorrect password attempt/;
+export const CWD_FAILED_TOKEN = "__NODE_SSH_CWD_FAILED__";
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+export const REDACTED = "[REDACTED]";
+// Shorter secrets are only redacted where they stand on their own, not inside every word that happens to contain them
+export const MIN_SUBSTRING_SECRET_LENGTH = 4;
+const SECRET_KEYS = ["passphrase", "password", "privateKey", "privateKeys", "sudoPassword"];
+const LOG_LEVELS = ["debug", "info", "warn", "error"];
 const readFile = promisify(fs.readFile) as (filename: string, encoding: string) => Promise<string>;
 export const stat = promisify(fs.stat) as (path: string | Buffer) => Promise<fs.Stats>;
+export const lstat = promisify(fs.lstat) as (path: string | Buffer) => Promise<fs.Stats>;
 export const readdir = promisify(fs.readdir) as (path: string | Buffer) => Promise<fs.Stats>;
+export const chmod = promisify(fs.chmod) as (path: string, mode: number) => Promise<void>;
+export const readlink = promisify(fs.readlink) as (path: string | Buffer) => Promise<string>;
+const symlink = promisify(fs.symlink) as (target: string, path: string) => Promise<void>;
+const unlink = promisify(fs.unlink) as (path: string) => Promise<void>;
+export const utimes = promisify(fs.utimes) as
+    (path: string, atime: number | Date, mtime: number | Date) => Promise<void>;
+const mkdir = promisify(fs.mkdir) as (path: string | Buffer) => Promise<void>;
+
+// SFTP status codes, in the order of the protocol
+const SFTP_ERROR_CODES = [null, "EOF", "ENOENT", "EACCES", "EFAILURE", "EBADMSG", "ENOTCONN", "ECONNRESET", "ENOTSUP"];
 
-function transformError(givenError: any) {
+export function transformError(givenError: any) {
     const code = CODE_REGEXP.exec(givenError);
 
     if (code) {
         // eslint-disable-next-line no-param-reassign
         givenError.code = code[1];
+    } else if (givenError && typeof givenError.code === "number" && SFTP_ERROR_CODES[givenError.code]) {
+        givenError.code = SFTP_ERROR_CODES[givenError.code];
     }
 
     return givenError;
 }
 
+export function toTransferError(error: any,
+                                localPath: string,
+                                remotePath: string,
+                                transferred: ILocalRemotePair[] = []): Error {
+    // NOTE: Errors of our own already tell what went wrong, only those of SFTP and the file system get wrapped
+    if (error instanceof TransferError) {
+        error.transferred = transferred;
+        return error;
+    }
+    if (error instanceof SSHError) {
+        return error;
+    }
+
+    const cause = transformError(error);
+    const message = (cause && cause.message) || String(error);
+    const code = cause && typeof cause.code === "string" ? cause.code : "ETRANSFER";
+    const wrapped = new TransferError(message, localPath, remotePath, code, transferred);
+    wrapped.cause = cause;
+    return wrapped;
+}
+
 export function exists(filePath: string): Promise<boolean> {
     return new Promise((resolve) => {
         fs.access(filePath, fs.constants.R_OK, (error: Error) => {
@@ -44,7 +112,7 @@ export async function mkdirSftp(path: string, sftp: any): Promise<void> {
             return;
         }
 
-        throw new Error("mkdir() failed, target already exists and is not a directory");
+        throw new TransferError("mkdir() failed, target already exists and is not a directory", null, path, "ENOTDIR");
     }
 
     try {
@@ -54,58 +122,435 @@ export async function mkdirSftp(path: string, sftp: any): Promise<void> {
     }
 }
 
-export async function normalizeConfig(givenConfig: ssh2.ConnectConfig) {
-    const config = _.cloneDeep(givenConfig);
+export async function mkdirLocal(directory: string): Promise<void> {
+    let stats;
+
+    try {
+        stats = await stat(directory);
+    } catch (_) { /* No Op */ }
+
+    if (stats) {
+        if (stats.isDirectory()) {
+            return;
+        }
+
+        throw new TransferError(`mkdir() failed, ${directory} already exists and is not a directory`, directory, null,
+            "ENOTDIR");
+    }
+
+    const parent = path.dirname(directory);
+    if (parent !== directory) {
+        await mkdirLocal(parent);
+    }
+
+    try {
+        await mkdir(directory);
+    } catch (error) {
+        if (error.code !== "EEXIST") {
+            throw error;
+        }
+    }
+}
+
+export function isDirectoryAttributes(attrs: { mode: number }): boolean {
+    return getFileType(attrs) === "directory";
+}
+
+export function getFileType(attrs: { mode: number }): "file" | "directory" | "symlink" | "other" {
+    // tslint:disable-next-line:no-bitwise
+    const type = attrs.mode & fs.constants.S_IFMT;
+    if (type === fs.constants.S_IFREG) {
+        return "file";
+    }
+    if (type === fs.constants.S_IFDIR) {
+        return "directory";
+    }
+    if (type === fs.constants.S_IFLNK) {
+        return "symlink";
+    }
+    return "other";
+}
+
+export function getPermissions(attrs: { mode: number }): number {
+    // tslint:disable-next-line:no-bitwise
+    return attrs.mode & 0o7777;
+}
+
+export function statSftp(remotePath: string, sftp: ssh2.SFTPWrapper): Promise<Stats> {
+    return new Promise((resolve, reject) => {
+        sftp.stat(remotePath, (error, stats) => {
+            if (error) {
+                reject(transformError(error));
+            } else {
+                resolve(stats);
+            }
+        });
+    });
+}
+
+function callSftp<T>(callback: (done: CallbackFunction<T>) => void): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        callback(generateCallback(resolve, (error) => reject(transformError(error))));
+    });
+}
+
+export async function openWriteStreamSftp(remotePath: string,
+                                          sftp: ssh2.SFTPWrapper,
+                                          options: { flags: string, mode?: number, encoding?: string }):
+                                          Promise<stream.Writable> {
+    const attributes = typeof options.mode === "number" ? { mode: options.mode } : {};
+
+    // NOTE: Opening the handle ourselves keeps ssh2 from resetting the mode of existing files to 0666
+    const handle = await callSftp<Buffer>((done) => sftp.open(remotePath, options.flags, attributes, done));
+    try {
+        if (typeof options.mode === "number") {
+            await callSftp<void>((done) => sftp.fchmod(handle, options.mode, done));
+        }
+        // SFTP writes need absolute offsets, appending means starting where the file ends
+        const start = options.flags[0] === "a" ? (await callSftp<Stats>((done) => sftp.fstat(handle, done))).size : 0;
+
+        return sftp.createWriteStream(remotePath, { encoding: options.encoding, handle, start } as any);
+    } catch (error) {
+        sftp.close(handle, _.noop);
+        throw error;
+    }
+}
+
+export async function replaceSftp(fromPath: string, toPath: string, sftp: ssh2.SFTPWrapper): Promise<void> {
+    try {
+        // NOTE: Plain SFTP renames refuse to overwrite, OpenSSH's extension replaces the target atomically
+        await callSftp<void>((done) => sftp.ext_openssh_rename(fromPath, toPath, done));
+        return;
+    } catch (error) {
+        if (error.message !== "Server does not support this extended request") {
+            throw error;
+        }
+    }
+
+    try {
+        await callSftp<void>((done) => sftp.unlink(toPath, done));
+    } catch (error) {
+        if (error.code !== "ENOENT") {
+            throw error;
+        }
+    }
+    await callSftp<void>((done) => sftp.rename(fromPath, toPath, done));
+}
+
+export function lstatSftp(remotePath: string, sftp: ssh2.SFTPWrapper): Promise<Stats> {
+    return callSftp<Stats>((done) => sftp.lstat(remotePath, done));
+}
+
+export function readlinkSftp(remotePath: string, sftp: ssh2.SFTPWrapper): Promise<string> {
+    return callSftp<string>((done) => sftp.readlink(remotePath, done));
+}
+
+export async function symlinkSftp(targetPath: string, linkPath: string, sftp: ssh2.SFTPWrapper): Promise<void> {
+    try {
+        await callSftp<void>((done) => sftp.unlink(linkPath, done));
+    } catch (error) {
+        if (error.code !== "ENOENT") {
+            throw error;
+        }
+    }
+    await callSftp<void>((done) => sftp.symlink(targetPath, linkPath, done));
+}
+
+export async function symlinkLocal(targetPath: string, linkPath: string): Promise<void> {
+    try {
+        await unlink(linkPath);
+    } catch (error) {
+        if (error.code !== "ENOENT") {
+            throw error;
+        }
+    }
+    await symlink(targetPath, linkPath);
+}
+
+export function getTemporaryPath(remotePath: string): string {
+    // Hidden and next to the target, renames across filesystems aren't atomic
+    const suffix = crypto.randomBytes(6).toString("hex");
+    return path.posix.join(path.posix.dirname(remotePath), `.${path.posix.basename(remotePath)}.${suffix}.tmp`);
+}
+
+export function hashFile(filePath: string, algorithm: string = "sha256"): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = crypto.createHash(algorithm);
+        fs.createReadStream(filePath)
+            .on("error", reject)
+            .on("data", (chunk) => hash.update(chunk))
+            .on("end", () => resolve(hash.digest("hex")));
+    });
+}
+
+export async function scanDirectorySftp(directory: string,
+                                        sftp: ssh2.SFTPWrapper,
+                                        recursive: boolean,
+                                        validate: (remotePath: string) => boolean,
+                                        followSymlinks: boolean = false,
+                                        directories: string[] = null): Promise<string[]> {
+    const entries = await new Promise<FileEntry[]>((resolve, reject) => {
+        sftp.readdir(directory, (error, list) => {
+            if (error) {
+                reject(transformError(error));
+            } else {
+                resolve(list);
+            }
+        });
+    });
+    let files: string[] = [];
+
+    for (const entry of entries) {
+        if (entry.filename === "." || entry.filename === "..") {
+            continue;
+        }
+
+        const remotePath = path.posix.join(directory, entry.filename);
+        if (!validate(remotePath)) {
+            continue;
+        }
+
+        let attrs = entry.attrs;
+        if (followSymlinks && getFileType(attrs) === "symlink") {
+            // NOTE: Dangling links are kept, their transfer fails and is reported like any other
+            attrs = await statSftp(remotePath, sftp).catch(() => attrs);
+        }
+
+        if (isDirectoryAttributes(attrs)) {
+            if (recursive) {
+                files = files.concat(await scanDirectorySftp(remotePath, sftp, recursive, validate, followSymlinks,
+                    directories));
+                // A directory is listed after everything in it, so they can be removed in the given order
+                if (directories) {
+                    directories.push(remotePath);
+                }
+            }
+        } else {
+            files.push(remotePath);
+        }
+    }
+
+    return files;
+}
+
+// Unlike sb-scandir, symlinks are listed as they are instead of being followed
+export async function scanDirectoryLocal(directory: string,
+                                         recursive: boolean,
+                                         validate: (localPath: string) => boolean): Promise<string[]> {
+    let files: string[] = [];
+
+    for (const entry of await readdir(directory) as any as string[]) {
+        const localPath = path.join(directory, entry);
+        if (!validate(localPath)) {
+            continue;
+        }
+
+        if ((await lstat(localPath)).isDirectory()) {
+            if (recursive) {
+                files = files.concat(await scanDirectoryLocal(localPath, recursive, validate));
+            }
+        } else {
+            files.push(localPath);
+        }
+    }
+
+    return files;
+}
+
+async function readPrivateKey(privateKey: string, passphrase: string, name: string): Promise<string> {
+    if (typeof privateKey !== "string") {
+        throw new ValidationError(`${name} must be a string`);
+    }
+
+    let contents = privateKey;
+    if (!keys.isPrivateKeyData(privateKey)) {
+        try {
+            contents = await readFile(privateKey, "utf8");
+        } catch (error) {
+            if (error.code === "ENOENT") {
+                throw new ValidationError(`${name} does not exist at ${privateKey}`);
+            }
+            throw error;
+        }
+    }
+
+    return keys.preparePrivateKey(contents, passphrase);
+}
+
+export async function normalizeConfig(givenConfig: IConnectConfig): Promise<IConnectConfig> {
+    // A socket is handed to ssh2 as it is, a copy of it isn't connected to anything
+    let config = _.cloneDeepWith(givenConfig, (value, key) => key === "sock" ? value : undefined) as IConnectConfig;
+
+    if (config.sshConfig) {
+        if (typeof config.sshConfig !== "string" && config.sshConfig !== true) {
+            throw new ValidationError("config.sshConfig must be a string or true");
+        }
+        if (typeof config.host !== "string" || !config.host) {
+            throw new ValidationError("config.host must be a valid string");
+        }
+
+        // Explicitly given options win over the ones from the file, the alias itself gives way to HostName
+        const resolved = await resolveSSHConfig(config.host, config.sshConfig);
+        config = _.assign(resolved, _.omitBy(_.omit(config, ["host", "sshConfig"]), _.isUndefined), {
+            host: resolved.host || config.host
+        });
+    }
 
     if (config.username && typeof config.username !== "string") {
-        throw new Error("config.username must be a valid string");
+        throw new ValidationError("config.username must be a valid string");
     }
 
     if (typeof config.host !== "undefined") {
         if (typeof config.host !== "string" || !config.host) {
-            throw new Error("config.host must be a valid string");
+            throw new ValidationError("config.host must be a valid string");
         }
     } else if (typeof config.sock !== "undefined") {
         if (!config.sock || typeof config.sock !== "object") {
-            throw new Error("config.sock must be a valid object");
+            throw new ValidationError("config.sock must be a valid object");
         }
     } else {
-        throw new Error("config.host or config.sock must be provided");
+        throw new ValidationError("config.host or config.sock must be provided");
     }
 
     if (config.privateKey) {
-        const privateKey = config.privateKey;
-
-        if (typeof privateKey !== "string") {
-            throw new Error("config.privateKey must be a string");
+        config.privateKey = await readPrivateKey(config.privateKey as string, config.passphrase, "config.privateKey");
+    } else if (config.password) {
+        const password = config.password;
+        if (typeof password !== "string") {
+            throw new ValidationError("config.password must be a string");
         }
+    }
 
-        if (!(privateKey.includes("BEGIN") && privateKey.includes("KEY"))) {
-            try {
-                config.privateKey = await readFile(privateKey, "utf8");
-            } catch (error) {
-                if (error.code === "ENOENT") {
-                    throw new Error(`config.privateKey does not exist at ${privateKey}`);
-                }
-                throw error;
+    if (typeof config.privateKeys !== "undefined") {
+        if (!Array.isArray(config.privateKeys)) {
+            throw new ValidationError("config.privateKeys must be an array");
+        }
+        const privateKeys: IPrivateKey[] = await Promise.all(config.privateKeys.map((entry, index) => {
+            const identity = typeof entry === "string" ? { privateKey: entry } : entry;
+            if (!_.isObject(identity) || !identity) {
+                throw new ValidationError(`config.privateKeys[${index}] must be a string or an object`);
             }
+            const passphrase = typeof identity.passphrase === "string" ? identity.passphrase : config.passphrase;
+            return readPrivateKey(identity.privateKey, passphrase, `config.privateKeys[${index}].privateKey`)
+                .then((privateKey) => ({ passphrase, privateKey }));
+        }));
+        // A single privateKey is simply the first one to try
+        if (config.privateKey) {
+            privateKeys.unshift({ passphrase: config.passphrase, privateKey: config.privateKey as string });
+            delete config.privateKey;
         }
-    } else if (config.password) {
-        const password = config.password;
-        if (typeof password !== "string") {
-            throw new Error("config.password must be a string");
+        config.privateKeys = privateKeys;
+    }
+
+    if (typeof config.agent !== "undefined" && (typeof config.agent !== "string" || !config.agent)) {
+        throw new ValidationError("config.agent must be a valid string");
+    }
+    if (!config.agent && process.env.SSH_AUTH_SOCK) {
+        if (config.agentForward || !(config.password || config.privateKey || config.privateKeys)) {
+            // Like ssh itself, use the running agent when nothing else was given
+            config.agent = process.env.SSH_AUTH_SOCK;
+        }
+    }
+    if (config.agentForward && !config.agent) {
+        throw new ValidationError("config.agentForward requires config.agent or SSH_AUTH_SOCK to be set");
+    }
+
+    if (typeof config.onKeyboardInteractive !== "undefined") {
+        if (typeof config.onKeyboardInteractive !== "function") {
+            throw new ValidationError("config.onKeyboardInteractive must be a function");
+        }
+        config.tryKeyboard = true;
+    }
+
+    if (typeof config.hostKeyPolicy !== "undefined") {
+        if (["strict", "accept-new", "off"].indexOf(config.hostKeyPolicy) === -1) {
+            throw new ValidationError("config.hostKeyPolicy must be one of strict, accept-new or off");
+        }
+        if (config.hostKeyPolicy !== "off" && !config.host) {
+            throw new ValidationError("config.host must be provided to verify host keys");
         }
     }
+    if (typeof config.knownHosts !== "undefined") {
+        if (typeof config.knownHosts !== "string" || !config.knownHosts) {
+            throw new ValidationError("config.knownHosts must be a valid string");
+        }
+    }
+
+    if (typeof config.jump !== "undefined") {
+        const hops = Array.isArray(config.jump) ? config.jump : [config.jump];
+        if (!hops.length || !hops.every((hop) => _.isObject(hop) && !!hop)) {
+            throw new ValidationError("config.jump must be a config object or an array of them");
+        }
+        config.jump = await Promise.all(hops.map((hop) => normalizeConfig(hop)));
+    }
 
     return config;
 }
 
+export function getJumpHosts(config: IConnectConfig): IConnectConfig[] {
+    if (!config.jump) {
+        return [];
+    }
+
+    const hops = Array.isArray(config.jump) ? config.jump : [config.jump];
+    return _.flatMap(hops, (hop) => getJumpHosts(hop).concat(_.omit(hop, "jump") as IConnectConfig));
+}
+
+// Connections over a socket of their own have no host, records name the hop they go through or the socket instead
+export function getTargetHost(config: IConnectConfig): string {
+    if (config.host) {
+        return config.host;
+    }
+    const hops = getJumpHosts(config);
+    return hops.length ? hops[hops.length - 1].host : "sock";
+}
+
+export function normalizeSSHOptions(givenOptions: Partial<ISSHOptions>): ISSHOptions {
+    const options = _.clone(givenOptions) as ISSHOptions;
+
+    options.reconnect = !!options.reconnect;
+    options.retryIdempotent = !!options.retryIdempotent;
+
+    const defaults = { maxRetryDelay: 30000, reconnectRetries: 10, retries: 0, retryDelay: 1000 };
+    _.forEach(defaults, (value, key) => {
+        if (typeof options[key] !== "undefined") {
+            if (typeof options[key] !== "number" || !(options[key] >= 0)) {
+                throw new ValidationError(`options.${key} must be a non-negative number`);
+            }
+        } else {
+            options[key] = value;
+        }
+    });
+
+    _.forEach(["keepaliveInterval", "keepaliveCountMax"], (key) => {
+        if (typeof options[key] !== "undefined" && (typeof options[key] !== "number" || !(options[key] >= 0))) {
+            throw new ValidationError(`options.${key} must be a non-negative number`);
+        }
+    });
+
+    if (typeof options.maxSftpSessions === "undefined") {
+        options.maxSftpSessions = 1;
+    } else if (!Number.isInteger(options.maxSftpSessions) || options.maxSftpSessions < 1) {
+        throw new ValidationError("options.maxSftpSessions must be a positive integer");
+    }
+
+    if (typeof options.logger !== "undefined" && !isLogger(options.logger)) {
+        throw new ValidationError("options.logger must have debug, info, warn and error functions");
+    }
+
+    if (typeof options.audit !== "undefined" && typeof options.audit !== "function") {
+        throw new ValidationError("options.audit must be a function");
+    }
+
+    return options;
+}
+
 export function normalizePutDirectoryConfig(givenConfig: Partial<IPutDirectoryOptions>): IPutDirectoryOptions {
     const config = _.cloneDeep(givenConfig) as IPutDirectoryOptions;
 
     if (config.tick) {
         if (typeof config.tick !== "function") {
-            throw new Error("config.tick must be a function");
+            throw new ValidationError("config.tick must be a function");
         }
     } else {
         config.tick = _.noop;
@@ -113,7 +558,7 @@ export function normalizePutDirectoryConfig(givenConfig: Partial<IPutDirectoryOp
 
     if (config.validate) {
         if (typeof config.validate !== "function") {
-            throw new Error("config.validate must be a function");
+            throw new ValidationError("config.validate must be a function");
         }
     } else {
         config.validate = (localPath: string) => {
@@ -123,9 +568,404 @@ export function normalizePutDirectoryConfig(givenConfig: Partial<IPutDirectoryOp
 
     config.recursive = {}.hasOwnProperty.call(config, "recursive") ? !!config.recursive : true;
 
+    if (typeof config.transport === "undefined") {
+        config.transport = "sftp";
+    } else if (config.transport !== "sftp" && config.transport !== "tar") {
+        throw new ValidationError("config.transport must be either sftp or tar");
+    }
+
+    return config;
+}
+
+export function normalizePutStreamOptions(givenOptions: Partial<IPutStreamOptions>): IPutStreamOptions {
+    const options = _.clone(givenOptions) as IPutStreamOptions;
+
+    options.append = !!options.append;
+    if (typeof options.mode !== "undefined" && (typeof options.mode !== "number" || !(options.mode >= 0))) {
+        throw new ValidationError("options.mode must be a non-negative number");
+    }
+    if (typeof options.encoding === "undefined") {
+        options.encoding = "utf8";
+    } else if (typeof options.encoding !== "string" || !Buffer.isEncoding(options.encoding)) {
+        throw new ValidationError("options.encoding must be a valid encoding");
+    }
+    if (typeof options.signal !== "undefined" && !isCancelSignal(options.signal)) {
+        throw new ValidationError("options.signal must be an AbortSignal");
+    }
+
+    return options;
+}
+
+export function normalizeTransferOptions(givenOptions: ITransferOptions): ITransferOptions {
+    const options = _.clone(givenOptions);
+
+    options.atomic = !!options.atomic;
+    options.verify = !!options.verify;
+    if (typeof options.verifyRetries === "undefined") {
+        options.verifyRetries = 0;
+    } else if (!Number.isInteger(options.verifyRetries) || options.verifyRetries < 0) {
+        throw new ValidationError("options.verifyRetries must be a non-negative integer");
+    }
+    options.preserveMode = !!options.preserveMode;
+    options.preserveTimes = !!options.preserveTimes;
+    if (typeof options.mode !== "undefined" && (typeof options.mode !== "number" || !(options.mode >= 0))) {
+        throw new ValidationError("options.mode must be a non-negative number");
+    }
+    if (typeof options.symlinks === "undefined") {
+        options.symlinks = "follow";
+    } else if (["follow", "copy", "skip"].indexOf(options.symlinks) === -1) {
+        throw new ValidationError("options.symlinks must be one of follow, copy or skip");
+    }
+
+    return options;
+}
+
+export function normalizeSyncDirectoryConfig(givenConfig: Partial<ISyncDirectoryOptions>): ISyncDirectoryOptions {
+    const config = normalizePutDirectoryConfig(givenConfig) as ISyncDirectoryOptions;
+
+    config.checksum = !!config.checksum;
+    config.delete = !!config.delete;
+
     return config;
 }
 
+export function normalizeSudoOptions(givenOptions: Partial<ISudoOptions>): ISudoOptions {
+    const options = _.clone(givenOptions) as ISudoOptions;
+
+    if (typeof options.user !== "undefined") {
+        if (typeof options.user !== "string" || !options.user) {
+            throw new ValidationError("options.user must be a valid string");
+        }
+    }
+
+    options.login = {}.hasOwnProperty.call(options, "login") ? !!options.login : true;
+
+    if (typeof options.strategy !== "undefined") {
+        if (options.strategy !== "pty" && options.strategy !== "stdin") {
+            throw new ValidationError('options.strategy must be either "pty" or "stdin"');
+        }
+    } else {
+        options.strategy = "pty";
+    }
+
+    if (typeof options.promptPatterns !== "undefined") {
+        if (!Array.isArray(options.promptPatterns) || !options.promptPatterns.every((i) => i instanceof RegExp)) {
+            throw new ValidationError("options.promptPatterns must be an array of RegExps");
+        }
+        options.promptPatterns = [SUDO_PROMPT_PATTERN].concat(options.promptPatterns);
+    } else {
+        options.promptPatterns = [SUDO_PROMPT_PATTERN];
+    }
+
+    return options;
+}
+
+export function normalizePoolOptions(givenOptions: Partial<IPoolOptions>): IPoolOptions {
+    const options = _.clone(givenOptions) as IPoolOptions;
+
+    if (typeof options.concurrency !== "undefined") {
+        if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+            throw new ValidationError("options.concurrency must be a positive integer");
+        }
+    } else {
+        options.concurrency = 10;
+    }
+
+    if (typeof options.maxConnectionsPerHost !== "undefined") {
+        if (!Number.isInteger(options.maxConnectionsPerHost) || options.maxConnectionsPerHost < 1) {
+            throw new ValidationError("options.maxConnectionsPerHost must be a positive integer");
+        }
+    } else {
+        options.maxConnectionsPerHost = 1;
+    }
+
+    if (typeof options.idleTimeout !== "undefined") {
+        if (typeof options.idleTimeout !== "number" || options.idleTimeout < 0) {
+            throw new ValidationError("options.idleTimeout must be a non-negative number");
+        }
+    } else {
+        options.idleTimeout = 0;
+    }
+
+    return options;
+}
+
+export function normalizeRunCommandsOptions(givenOptions: Partial<IRunCommandsOptions>): IRunCommandsOptions {
+    const options = _.clone(givenOptions) as IRunCommandsOptions;
+
+    if (typeof options.errorPolicy !== "undefined") {
+        if (options.errorPolicy !== "stopOnError" && options.errorPolicy !== "continueOnError") {
+            throw new ValidationError('options.errorPolicy must be either "stopOnError" or "continueOnError"');
+        }
+    } else {
+        options.errorPolicy = "continueOnError";
+    }
+
+    if (typeof options.timeout !== "undefined") {
+        if (typeof options.timeout !== "number" || !(options.timeout > 0)) {
+            throw new ValidationError("options.timeout must be a positive number");
+        }
+    }
+
+    if (typeof options.signal !== "undefined" && !isCancelSignal(options.signal)) {
+        throw new ValidationError("options.signal must be an AbortSignal");
+    }
+
+    return options;
+}
+
+export function normalizeTailOptions(givenOptions: Partial<ITailOptions>): ITailOptions {
+    const options = _.clone(givenOptions) as ITailOptions;
+
+    if (typeof options.lines !== "undefined") {
+        if (!Number.isInteger(options.lines) || options.lines < 0) {
+            throw new ValidationError("options.lines must be a non-negative integer");
+        }
+    } else {
+        options.lines = 10;
+    }
+
+    if (typeof options.follow !== "undefined") {
+        options.follow = !!options.follow;
+    } else {
+        options.follow = true;
+    }
+
+    if (typeof options.signal !== "undefined" && !isCancelSignal(options.signal)) {
+        throw new ValidationError("options.signal must be an AbortSignal");
+    }
+
+    return options;
+}
+
+export function normalizeWatchOptions(givenOptions: Partial<IWatchOptions>): IWatchOptions {
+    const options = _.clone(givenOptions) as IWatchOptions;
+
+    if (typeof options.interval !== "undefined") {
+        if (typeof options.interval !== "number" || !(options.interval > 0)) {
+            throw new ValidationError("options.interval must be a positive number");
+        }
+    } else {
+        options.interval = 1000;
+    }
+
+    options.recursive = !!options.recursive;
+
+    if (typeof options.signal !== "undefined" && !isCancelSignal(options.signal)) {
+        throw new ValidationError("options.signal must be an AbortSignal");
+    }
+
+    return options;
+}
+
+export function generatePromptToken(): string {
+    return `__NODE_SSH_${crypto.randomBytes(8).toString("hex")}__`;
+}
+
+export function getPromptSetupCommand(token: string): string {
+    // NOTE: $? is expanded when the prompt is printed, so every prompt carries the previous exit code
+    return [
+        "PROMPT_COMMAND=''",
+        `PS1='${token}$?${token}'`,
+        "PS2=''",
+        "RPROMPT=''",
+        // Bash 5.1 wraps every command in bracketed paste escapes otherwise, those would end up in the output
+        "bind 'set enable-bracketed-paste off' 2>/dev/null",
+        'if [ -n "$ZSH_VERSION" ]; then setopt PROMPT_SUBST; fi'
+    ].join("; ") + "\n";
+}
+
+export function getCwdCommand(cwd: string): string {
+    // NOTE: cd's own complaint is hidden, the token tells a missing cwd apart from the command itself failing
+    return `cd ${shellEscape([cwd])} 1> /dev/null 2> /dev/null || { echo ${CWD_FAILED_TOKEN} 1>&2; exit 1; }`;
+}
+
+export function isEnvironment(env: any): boolean {
+    return _.isPlainObject(env) &&
+        Object.keys(env).every((name) => ENV_NAME_PATTERN.test(name) && _.isString(env[name]));
+}
+
+export function getEnvCommand(env: { [name: string]: string }): string {
+    return `export ${_.map(env, (value, name) => `${name}=${shellEscape([value])}`).join(" ")}`;
+}
+
+export function isLogger(logger: any): logger is ILogger {
+    return _.isObject(logger) && LOG_LEVELS.every((level) => typeof logger[level] === "function");
+}
+
+export function getSecrets(config: IConnectConfig, others: string[] = []): string[] {
+    const secrets = others.filter((secret) => !!secret);
+    getJumpHosts(config).concat(config).forEach((target) => {
+        const identities = (target.privateKeys || []) as IPrivateKey[];
+        const candidates = [target.password, target.passphrase, target.privateKey as string]
+            .concat(_.flatMap(identities, (identity) => [identity.privateKey, identity.passphrase]));
+        candidates.forEach((secret) => {
+            if (secret) {
+                secrets.push(secret.toString());
+            }
+        });
+    });
+    // Longer ones first, a secret that contains another one would otherwise only be redacted in part
+    return _.uniq(secrets).sort((a, b) => b.length - a.length);
+}
+
+function redactSecret(text: string, secret: string): string {
+    if (secret.length >= MIN_SUBSTRING_SECRET_LENGTH) {
+        return text.split(secret).join(REDACTED);
+    }
+    return text.replace(new RegExp(`(^|\\W)${_.escapeRegExp(secret)}(?=\\W|$)`, "g"), `$1${REDACTED}`);
+}
+
+export function redact<T>(value: T, secrets: string[]): T {
+    if (typeof value === "string") {
+        return secrets.reduce(redactSecret, value as string) as any;
+    }
+    if (Array.isArray(value)) {
+        return value.map((entry) => redact(entry, secrets)) as any;
+    }
+    if (_.isPlainObject(value)) {
+        return _.mapValues(value as any, (entry, key) =>
+            SECRET_KEYS.indexOf(key) !== -1 && entry ? REDACTED : redact(entry, secrets)) as any;
+    }
+    return value;
+}
+
+export function findPartialPrompt(data: string, token: string): number {
+    const opening = data.lastIndexOf(token);
+    if (opening !== -1) {
+        const rest = data.slice(opening + token.length);
+        const digits = /^\d*/.exec(rest)[0];
+        if (token.startsWith(rest.slice(digits.length))) {
+            return opening;
+        }
+    }
+
+    for (let i = Math.max(0, data.length - token.length + 1); i < data.length; i++) {
+        if (token.startsWith(data.slice(i))) {
+            return i;
+        }
+    }
+
+    return data.length;
+}
+
+export async function mapConcurrent<T, R>(items: T[],
+                                          concurrency: number,
+                                          callback: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await callback(items[index], index);
+        }
+    };
+
+    const workers = [];
+    for (let i = 0, length = Math.min(concurrency, items.length); i < length; i++) {
+        workers.push(worker());
+    }
+    await Promise.all(workers);
+
+    return results;
+}
+
+export interface ISocksRequest {
+    command: number;
+    host: string;
+    port: number;
+    length: number;
+}
+
+export function parseSocksRequest(buffer: Buffer): ISocksRequest {
+    if (buffer.length < 5) {
+        return null;
+    }
+    if (buffer[0] !== 5) {
+        throw new Error("Unsupported SOCKS version");
+    }
+
+    const addressType = buffer[3];
+    let host: string;
+    let offset: number;
+
+    if (addressType === 1) {
+        offset = 8;
+        if (buffer.length < offset + 2) {
+            return null;
+        }
+        host = Array.prototype.slice.call(buffer.slice(4, 8)).join(".");
+    } else if (addressType === 3) {
+        offset = 5 + buffer[4];
+        if (buffer.length < offset + 2) {
+            return null;
+        }
+        host = buffer.slice(5, offset).toString();
+    } else if (addressType === 4) {
+        offset = 20;
+        if (buffer.length < offset + 2) {
+            return null;
+        }
+        const groups: string[] = [];
+        for (let i = 4; i < offset; i += 2) {
+            groups.push(buffer.readUInt16BE(i).toString(16));
+        }
+        host = groups.join(":");
+    } else {
+        throw new Error("Unsupported SOCKS address type");
+    }
+
+    return { command: buffer[1], host, port: buffer.readUInt16BE(offset), length: offset + 2 };
+}
+
+export function isCancelSignal(value: any): boolean {
+    return !!value && typeof value.aborted === "boolean" && typeof value.addEventListener === "function" &&
+        typeof value.removeEventListener === "function";
+}
+
+export function onCancel(signal: ICancelSignal, callback: () => void): () => void {
+    if (!signal) {
+        return () => undefined;
+    }
+    if (signal.aborted) {
+        // NOTE: Listeners added after the fact never fire, run it now so the caller doesn't wait forever
+        callback();
+        return () => undefined;
+    }
+    signal.addEventListener("abort", callback);
+    return () => signal.removeEventListener("abort", callback);
+}
+
+export function throwIfCancelled(signal: ICancelSignal, transferred: ILocalRemotePair[] = []) {
+    if (signal && signal.aborted) {
+        throw new CancelledError(transferred);
+    }
+}
+
+export function abortSftp(sftp: ssh2.SFTPWrapper) {
+    // NOTE: Replies to requests that were still in flight arrive after the session ended, they aren't errors
+    sftp.on("error", () => undefined);
+    sftp.end();
+}
+
+export function raceCancel<T>(signal: ICancelSignal, promise: Promise<T>): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    // NOTE: ssh2 drops the callbacks of requests still pending on an ended session, don't wait for them
+    return new Promise<T>((resolve, reject) => {
+        const stopCancel = onCancel(signal, () => reject(new CancelledError()));
+        promise.then((value) => {
+            stopCancel();
+            resolve(value);
+        }, (error) => {
+            stopCancel();
+            reject(error);
+        });
+    });
+}
+
 export type ResolveFunction<T> = (value?: T | PromiseLike<T>) => void;
 export type RejectFunction = (reason?: any) => void;
 export type CallbackFunction<T> = (error: any, result?: T) => void;
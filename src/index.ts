@@ -1,11 +1,51 @@
 export { TransferOptions } from "ssh2-streams";
 export { SSH } from "./ssh";
 export {
+    AuthenticationError,
+    CancelledError,
+    CommandFailedError,
+    HostKeyError,
+    HostKeyMismatchError,
+    HostKeyUnknownError,
+    NotConnectedError,
+    ShellCommandsError,
+    SSHError,
+    TransferError,
+    ValidationError
+} from "./errors";
+export { SSHPool } from "./pool";
+export { RemoteFS } from "./remote-fs";
+export { RemoteTail, RemoteWatcher } from "./watch";
+export {
+    IAuditEntry,
+    ICancelSignal,
     IClientChannelShell,
+    IConnectConfig,
+    IExecCommandHandle,
     IExecCommandOptions,
     IExecCommandResult,
     IExecOptions,
+    IForwardHandle,
+    IForwardStats,
+    IGetDirectoryOptions,
     ILocalRemotePair,
+    ILogger,
+    IPoolOptions,
+    IPoolResult,
+    IPrivateKey,
     IPutDirectoryOptions,
-    ICommand
+    IPutStreamOptions,
+    IRemoteDirectoryEntry,
+    ISyncDirectoryOptions,
+    ISyncDirectoryResult,
+    ITailOptions,
+    ICommand,
+    IRunCommandsOptions,
+    IShellCommandResult,
+    ISSHOptions,
+    ISudoOptions,
+    ITransferOptions,
+    ITransferProgress,
+    IWatchOptions,
+    IWriteFileOptions
 } from "./types";
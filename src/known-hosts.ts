@@ -0,0 +1,162 @@
+/* @flow */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { promisify } from "sb-promisify";
+import * as ssh2 from "ssh2";
+import { HostKeyError, HostKeyMismatchError, HostKeyUnknownError } from "./errors";
+import { matchesHostPatterns } from "./ssh-config";
+
+const readFile = promisify(fs.readFile) as (filename: string, encoding: string) => Promise<string>;
+const appendFile = promisify(fs.appendFile) as (filename: string, contents: string) => Promise<void>;
+const mkdir = promisify(fs.mkdir) as (path: string, mode: number) => Promise<void>;
+
+export const DEFAULT_KNOWN_HOSTS_PATH = path.join(os.homedir(), ".ssh", "known_hosts");
+
+export interface IKnownHostEntry {
+    marker: string;
+    hosts: string[];
+    keyType: string;
+    key: Buffer;
+}
+
+interface IClientInternals {
+    // NOTE: Private to ssh2 0.5.x, its protocol stream emits the host key before hostVerifier only gets a hash of it
+    _sshstream?: NodeJS.EventEmitter;
+}
+
+export function formatKnownHost(host: string, port: number = 22): string {
+    return port === 22 ? host : `[${host}]:${port}`;
+}
+
+export function getFingerprint(key: Buffer): string {
+    return `SHA256:${crypto.createHash("sha256").update(key).digest("base64").replace(/=+$/, "")}`;
+}
+
+function getKeyType(key: Buffer): string {
+    if (key.length < 4) {
+        return null;
+    }
+    return key.slice(4, 4 + key.readUInt32BE(0)).toString();
+}
+
+function matchesKnownHost(patterns: string[], host: string): boolean {
+    for (const pattern of patterns) {
+        // Hashed entries look like |1|salt|hash, where hash is a HMAC-SHA1 of the host keyed with the salt
+        const hashed = /^\|1\|([^|]+)\|(.+)$/.exec(pattern);
+        if (hashed) {
+            const hash = crypto.createHmac("sha1", new Buffer(hashed[1], "base64")).update(host).digest("base64");
+            if (hash === hashed[2]) {
+                return true;
+            }
+        }
+    }
+
+    return matchesHostPatterns(host, patterns.filter((pattern) => !pattern.startsWith("|")));
+}
+
+export function parseKnownHosts(contents: string): IKnownHostEntry[] {
+    const entries: IKnownHostEntry[] = [];
+
+    for (const rawLine of contents.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith("#")) {
+            continue;
+        }
+
+        const parts = line.split(/\s+/);
+        const marker = parts[0].startsWith("@") ? parts.shift() : null;
+        if (parts.length < 3) {
+            continue;
+        }
+
+        entries.push({
+            hosts: parts[0].split(","),
+            key: new Buffer(parts[2], "base64"),
+            keyType: parts[1],
+            marker
+        });
+    }
+
+    return entries;
+}
+
+export async function readKnownHosts(filePath: string): Promise<IKnownHostEntry[]> {
+    try {
+        return parseKnownHosts(await readFile(filePath, "utf8"));
+    } catch (error) {
+        if (error.code === "ENOENT") {
+            return [];
+        }
+        throw error;
+    }
+}
+
+async function addKnownHost(filePath: string, line: string): Promise<void> {
+    let contents = "";
+    try {
+        contents = await readFile(filePath, "utf8");
+    } catch (error) {
+        if (error.code !== "ENOENT") {
+            throw error;
+        }
+        // The first host ever accepted may well be the one to create ~/.ssh
+        try {
+            await mkdir(path.dirname(filePath), 0o700);
+        } catch (_) {
+            if (_.code !== "EEXIST") {
+                throw _;
+            }
+        }
+    }
+
+    // An entry appended to a last line without its newline would corrupt both of them
+    const separator = contents && !contents.endsWith("\n") ? "\n" : "";
+    await appendFile(filePath, `${separator}${line}\n`);
+}
+
+export async function verifyHostKey(entries: IKnownHostEntry[],
+                                    host: string,
+                                    port: number,
+                                    key: Buffer,
+                                    policy: "strict" | "accept-new",
+                                    filePath: string): Promise<Error> {
+    const knownHost = formatKnownHost(host, port);
+    const matching = entries.filter((entry) => matchesKnownHost(entry.hosts, knownHost));
+    const candidates = matching.filter((entry) => !entry.marker);
+    const presented = getFingerprint(key);
+
+    if (matching.some((entry) => entry.marker === "@revoked" && entry.key.equals(key))) {
+        return new HostKeyMismatchError(knownHost, [], presented);
+    }
+    if (candidates.some((entry) => entry.key.equals(key))) {
+        return null;
+    }
+
+    // Only a key of the same type is a real mismatch, the host may simply not be known under this type yet
+    const keyType = getKeyType(key);
+    const sameType = candidates.filter((entry) => entry.keyType === keyType);
+    if (sameType.length || (candidates.length && policy === "strict")) {
+        return new HostKeyMismatchError(knownHost, (sameType.length ? sameType : candidates)
+            .map((entry) => getFingerprint(entry.key)), presented);
+    }
+    if (policy === "strict") {
+        return new HostKeyUnknownError(knownHost, presented);
+    }
+
+    await addKnownHost(filePath, `${knownHost} ${keyType} ${key.toString("base64")}`);
+    return null;
+}
+
+export function onHostKey(connection: ssh2.Client,
+                          host: string,
+                          listener: (key: Buffer, verify: (valid: boolean) => void) => void) {
+    const sshStream = (connection as IClientInternals)._sshstream;
+    if (!sshStream) {
+        // Going ahead would connect without checking the host key at all
+        throw new HostKeyError(`Host key for ${host} can not be verified with this version of ssh2`, host);
+    }
+    sshStream.once("fingerprint", listener);
+}
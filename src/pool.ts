@@ -0,0 +1,185 @@
+/* @flow */
+
+import * as _ from "lodash";
+import { validate } from "./errors";
+import * as helpers from "./helpers";
+import { SSH } from "./ssh";
+import {
+    IConnectConfig,
+    IExecCommandOptions,
+    IExecCommandResult,
+    IPoolOptions,
+    IPoolResult,
+    IPutDirectoryOptions,
+    ITransferOptions
+} from "./types";
+
+interface IHostEntry {
+    connections: number;
+    idle: Array<{ ssh: SSH, timer: NodeJS.Timer }>;
+    waiting: Array<() => void>;
+}
+
+export class SSHPool {
+    private options: IPoolOptions;
+    private hosts = new Map<string, IHostEntry>();
+    private owners = new Map<SSH, string>();
+    private keys = new Map<IConnectConfig, string>();
+    private disposed = false;
+
+    constructor(private configs: IConnectConfig[] = [], givenOptions: Partial<IPoolOptions> = {}) {
+        validate(Array.isArray(configs), "configs must be an array");
+        validate(_.isObject(givenOptions) && givenOptions, "options must be an object");
+
+        this.options = helpers.normalizePoolOptions(givenOptions);
+    }
+
+    public async acquire(config: IConnectConfig): Promise<SSH> {
+        validate(!this.disposed, "Pool has been disposed");
+        validate(_.isObject(config) && config, "config must be an object");
+
+        const key = this.getHostKey(config);
+        const entry = this.getHostEntry(key);
+
+        while (entry.idle.length) {
+            const { ssh, timer } = entry.idle.pop();
+            clearTimeout(timer);
+            if (ssh.connection) {
+                return ssh;
+            }
+            // Died while sitting idle
+            this.discard(ssh);
+        }
+
+        if (entry.connections >= this.options.maxConnectionsPerHost) {
+            return new Promise<SSH>((resolve) => {
+                entry.waiting.push(() => resolve(this.acquire(config)));
+            });
+        }
+
+        const ssh = new SSH(config);
+        entry.connections++;
+        this.owners.set(ssh, key);
+
+        try {
+            await ssh.connect();
+        } catch (error) {
+            this.discard(ssh);
+            this.wakeUp(key);
+            throw error;
+        }
+
+        return ssh;
+    }
+
+    public release(ssh: SSH) {
+        const key = this.owners.get(ssh);
+        validate(key, "Connection does not belong to this pool");
+
+        if (this.disposed || !ssh.connection) {
+            this.discard(ssh);
+        } else {
+            const entry = this.getHostEntry(key);
+            const idle = { ssh, timer: null };
+            if (this.options.idleTimeout) {
+                idle.timer = setTimeout(() => {
+                    _.pull(entry.idle, idle);
+                    this.discard(ssh);
+                }, this.options.idleTimeout);
+            }
+            entry.idle.push(idle);
+        }
+
+        this.wakeUp(key);
+    }
+
+    public run<T>(task: (ssh: SSH, config: IConnectConfig) => Promise<T>): Promise<Array<IPoolResult<T>>> {
+        validate(_.isFunction(task), "task must be a function");
+
+        return helpers.mapConcurrent(this.configs, this.options.concurrency, async (config) => {
+            const result: IPoolResult<T> = { config, host: config.host || this.getHostKey(config) };
+            let ssh: SSH = null;
+
+            try {
+                ssh = await this.acquire(config);
+                result.result = await task(ssh, config);
+            } catch (error) {
+                result.error = error;
+            } finally {
+                if (ssh) {
+                    this.release(ssh);
+                }
+            }
+
+            return result;
+        });
+    }
+
+    public execCommand(command: string,
+                       options: IExecCommandOptions = {}): Promise<Array<IPoolResult<IExecCommandResult>>> {
+        return this.run((ssh) => ssh.execCommand(command, options));
+    }
+
+    public putFile(localFile: string,
+                   remoteFile: string,
+                   givenOpts: ITransferOptions = null): Promise<Array<IPoolResult<void>>> {
+        return this.run((ssh) => ssh.putFile(localFile, remoteFile, null, givenOpts));
+    }
+
+    public putDirectory(localDirectory: string,
+                        remoteDirectory: string,
+                        givenConfig: Partial<IPutDirectoryOptions> = {},
+                        givenOpts: ITransferOptions = null): Promise<Array<IPoolResult<boolean>>> {
+        return this.run((ssh) => ssh.putDirectory(localDirectory, remoteDirectory, givenConfig, null, givenOpts));
+    }
+
+    public dispose() {
+        this.disposed = true;
+
+        this.hosts.forEach((entry) => {
+            entry.idle.splice(0).forEach(({ ssh, timer }) => {
+                clearTimeout(timer);
+                this.discard(ssh);
+            });
+        });
+    }
+
+    private discard(ssh: SSH) {
+        const key = this.owners.get(ssh);
+        if (key) {
+            this.owners.delete(ssh);
+            this.getHostEntry(key).connections--;
+        }
+        ssh.dispose();
+    }
+
+    private wakeUp(key: string) {
+        const waiting = this.getHostEntry(key).waiting.shift();
+        if (waiting) {
+            waiting();
+        }
+    }
+
+    private getHostEntry(key: string): IHostEntry {
+        let entry = this.hosts.get(key);
+        if (!entry) {
+            entry = { connections: 0, idle: [], waiting: [] };
+            this.hosts.set(key, entry);
+        }
+        return entry;
+    }
+
+    private getHostKey(config: IConnectConfig): string {
+        if (config.host) {
+            return `${config.username || ""}@${config.host}:${config.port || 22}`;
+        }
+
+        // Pre-made sockets can't be shared, every config gets a host of its own
+        let key = this.keys.get(config);
+        if (!key) {
+            key = `sock#${this.keys.size}`;
+            this.keys.set(config, key);
+        }
+        return key;
+    }
+}
@@ -0,0 +1,82 @@
+/* @flow */
+
+import * as _ from "lodash";
+import { TransferOptions } from "ssh2-streams";
+import { ILocalRemotePair, ITransferOptions, ITransferProgress } from "./types";
+
+interface IFileProgress {
+    transferred: number;
+    total: number;
+}
+
+export class ProgressTracker {
+    private files = new Map<ILocalRemotePair, IFileProgress>();
+    private transferred = 0;
+    private total = 0;
+    private filesCompleted = 0;
+    private startTime = Date.now();
+
+    // Sizes that aren't known up front, like the ones of remote files, are learned once their transfer starts
+    constructor(private onProgress: (progress: ITransferProgress) => void,
+                files: ILocalRemotePair[],
+                sizes: number[] = []) {
+        files.forEach((file, index) => {
+            const total = sizes[index] || 0;
+            this.files.set(file, { total, transferred: 0 });
+            this.total += total;
+        });
+    }
+
+    public getTransferOptions(file: ILocalRemotePair, opts: ITransferOptions): TransferOptions {
+        return {
+            ..._.omit(opts, "onProgress"),
+            step: (transferred: number, chunk: number, total: number) => {
+                if (opts.step) {
+                    opts.step(transferred, chunk, total);
+                }
+                this.update(file, transferred, total);
+            }
+        };
+    }
+
+    public complete(file: ILocalRemotePair, successful: boolean = true) {
+        const progress = this.files.get(file);
+        if (successful) {
+            this.update(file, progress.total, progress.total, true);
+        } else {
+            // A failed file won't send the rest of its bytes, take them out so the totals still add up
+            this.total -= progress.total - progress.transferred;
+            progress.total = progress.transferred;
+            this.update(file, progress.transferred, progress.total, true);
+        }
+    }
+
+    private update(file: ILocalRemotePair, transferred: number, total: number, completed: boolean = false) {
+        const progress = this.files.get(file);
+        if (total !== progress.total) {
+            this.total += total - progress.total;
+            progress.total = total;
+        }
+        this.transferred += transferred - progress.transferred;
+        progress.transferred = transferred;
+        if (completed) {
+            this.filesCompleted++;
+        }
+
+        const elapsed = (Date.now() - this.startTime) / 1000;
+        const bytesPerSecond = elapsed > 0 ? this.transferred / elapsed : 0;
+
+        this.onProgress({
+            bytesPerSecond,
+            eta: bytesPerSecond > 0 ? (this.total - this.transferred) / bytesPerSecond : null,
+            fileTotal: progress.total,
+            fileTransferred: progress.transferred,
+            filesCompleted: this.filesCompleted,
+            filesTotal: this.files.size,
+            local: file.local,
+            remote: file.remote,
+            total: this.total,
+            transferred: this.transferred
+        });
+    }
+}
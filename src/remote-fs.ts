@@ -0,0 +1,137 @@
+/* @flow */
+
+import * as _ from "lodash";
+import * as path from "path";
+import * as ssh2 from "ssh2";
+import { FileEntry, Stats } from "ssh2-streams";
+import { validate } from "./errors";
+import * as helpers from "./helpers";
+import { IRemoteDirectoryEntry, IWriteFileOptions } from "./types";
+
+export class RemoteFS {
+    constructor(public sftp: ssh2.SFTPWrapper) {
+        validate(_.isObject(sftp) && sftp, "sftp must be an object");
+    }
+
+    public readFile(remotePath: string): Promise<Buffer>;
+    public readFile(remotePath: string, encoding: string): Promise<string>;
+    public readFile(remotePath: string, encoding: string = null): Promise<Buffer | string> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            this.sftp.createReadStream(remotePath)
+                .on("error", (error: Error) => reject(helpers.transformError(error)))
+                .on("data", (chunk: Buffer) => chunks.push(chunk))
+                .on("end", () => {
+                    const contents = Buffer.concat(chunks);
+                    resolve(encoding ? contents.toString(encoding) : contents);
+                });
+        });
+    }
+
+    public async writeFile(remotePath: string,
+                           contents: string | Buffer,
+                           givenOptions: Partial<IWriteFileOptions> = {}): Promise<void> {
+        validate(typeof contents === "string" || Buffer.isBuffer(contents), "contents must be a string or a Buffer");
+        const options = _.defaults({}, givenOptions, { encoding: "utf8", flag: "w" }) as IWriteFileOptions;
+
+        const writeStream = await helpers.openWriteStreamSftp(remotePath, this.sftp, {
+            encoding: options.encoding,
+            flags: options.flag,
+            mode: options.mode
+        });
+
+        return new Promise<void>((resolve, reject) => {
+            writeStream.on("error", (error: Error) => reject(helpers.transformError(error)));
+            // NOTE: finish fires before the remote handle is closed, close is when the contents are really there
+            writeStream.on("close", () => resolve());
+            writeStream.end(contents);
+        });
+    }
+
+    public stat(remotePath: string): Promise<Stats> {
+        return this.call<Stats>("stat", remotePath);
+    }
+
+    public lstat(remotePath: string): Promise<Stats> {
+        return this.call<Stats>("lstat", remotePath);
+    }
+
+    public async exists(remotePath: string): Promise<boolean> {
+        try {
+            await this.stat(remotePath);
+            return true;
+        } catch (error) {
+            if (error.code === "ENOENT") {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    public async readdir(remotePath: string): Promise<IRemoteDirectoryEntry[]> {
+        const entries = await this.call<FileEntry[]>("readdir", remotePath);
+
+        return entries
+            .filter((entry) => entry.filename !== "." && entry.filename !== "..")
+            .map((entry) => ({ attrs: entry.attrs, name: entry.filename, type: helpers.getFileType(entry.attrs) }));
+    }
+
+    public rename(fromPath: string, toPath: string): Promise<void> {
+        return this.call<void>("rename", fromPath, toPath);
+    }
+
+    public unlink(remotePath: string): Promise<void> {
+        return this.call<void>("unlink", remotePath);
+    }
+
+    public async rm(remotePath: string, recursive: boolean = false): Promise<void> {
+        const stats = await this.lstat(remotePath);
+
+        if (!stats.isDirectory()) {
+            await this.unlink(remotePath);
+            return;
+        }
+        if (recursive) {
+            for (const entry of await this.readdir(remotePath)) {
+                await this.rm(path.posix.join(remotePath, entry.name), true);
+            }
+        }
+        await this.call<void>("rmdir", remotePath);
+    }
+
+    public chmod(remotePath: string, mode: number | string): Promise<void> {
+        return this.call<void>("chmod", remotePath, mode);
+    }
+
+    public chown(remotePath: string, uid: number, gid: number): Promise<void> {
+        return this.call<void>("chown", remotePath, uid, gid);
+    }
+
+    public symlink(targetPath: string, linkPath: string): Promise<void> {
+        return this.call<void>("symlink", targetPath, linkPath);
+    }
+
+    public readlink(remotePath: string): Promise<string> {
+        return this.call<string>("readlink", remotePath);
+    }
+
+    public realpath(remotePath: string): Promise<string> {
+        return this.call<string>("realpath", remotePath);
+    }
+
+    public end() {
+        this.sftp.end();
+    }
+
+    private call<T>(method: string, ...args: any[]): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            this.sftp[method](...args, (error: Error, result: T) => {
+                if (error) {
+                    reject(helpers.transformError(error));
+                } else {
+                    resolve(result);
+                }
+            });
+        });
+    }
+}
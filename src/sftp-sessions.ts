@@ -0,0 +1,72 @@
+/* @flow */
+
+import * as _ from "lodash";
+import * as ssh2 from "ssh2";
+import * as helpers from "./helpers";
+
+interface ISftpSession {
+    sftp: Promise<ssh2.SFTPWrapper>;
+    wrapper?: ssh2.SFTPWrapper;
+    users: number;
+}
+
+export class SftpSessions {
+    private sessions: ISftpSession[] = [];
+
+    constructor(public connection: ssh2.Client, private limit: number) {}
+
+    public async acquire(): Promise<ssh2.SFTPWrapper> {
+        // SFTP requests are multiplexed, busy sessions are shared once there's no room for another channel
+        let session = _.minBy(this.sessions, "users");
+        if (!session || (session.users > 0 && this.sessions.length < this.limit)) {
+            session = this.open();
+        }
+
+        session.users++;
+        try {
+            return await session.sftp;
+        } catch (error) {
+            session.users--;
+            throw error;
+        }
+    }
+
+    // Returns false for sessions that aren't managed here, the caller is responsible for closing those
+    public release(sftp: ssh2.SFTPWrapper): boolean {
+        const session = this.sessions.find((entry) => entry.wrapper === sftp);
+        if (!session) {
+            return false;
+        }
+
+        session.users--;
+        return true;
+    }
+
+    public dispose() {
+        const sessions = this.sessions;
+        this.sessions = [];
+        sessions.forEach((session) => session.sftp.then((sftp) => sftp.end(), _.noop));
+    }
+
+    private open(): ISftpSession {
+        const session: ISftpSession = {
+            sftp: new Promise<ssh2.SFTPWrapper>((resolve, reject) => {
+                this.connection.sftp(helpers.generateCallback(resolve, reject));
+            }),
+            users: 0
+        };
+        const remove = () => {
+            this.sessions = this.sessions.filter((entry) => entry !== session);
+        };
+
+        // NOTE: Sessions that die are forgotten, the next caller gets a fresh one
+        session.sftp.then((sftp) => {
+            session.wrapper = sftp;
+            sftp.once("close", remove);
+            sftp.once("end", remove);
+            sftp.on("error", remove);
+        }, remove);
+        this.sessions.push(session);
+        return session;
+    }
+}
@@ -0,0 +1,236 @@
+/* @flow */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { promisify } from "sb-promisify";
+import { ValidationError } from "./errors";
+import { IConnectConfig } from "./types";
+
+const readFile = promisify(fs.readFile) as (filename: string, encoding: string) => Promise<string>;
+const readdir = promisify(fs.readdir) as (path: string) => Promise<string[]>;
+const access = promisify(fs.access) as (path: string, mode: number) => Promise<void>;
+
+export const DEFAULT_SSH_CONFIG_PATH = path.join(os.homedir(), ".ssh", "config");
+
+export interface ISSHConfigEntry {
+    // Every group of Host patterns has to match, included files add the group of the block they were included from
+    conditions: string[][];
+    keyword: string;
+    value: string;
+}
+
+export function expandHome(filePath: string): string {
+    if (filePath === "~" || filePath.startsWith("~/")) {
+        return path.join(os.homedir(), filePath.slice(1));
+    }
+    return filePath;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+    return new RegExp(`^${escaped}$`, "i");
+}
+
+export function matchesHostPatterns(host: string, patterns: string[]): boolean {
+    let matched = false;
+
+    for (const pattern of patterns) {
+        if (pattern.startsWith("!")) {
+            // A negated match rules the block out no matter what else matches
+            if (patternToRegExp(pattern.slice(1)).test(host)) {
+                return false;
+            }
+        } else if (patternToRegExp(pattern).test(host)) {
+            matched = true;
+        }
+    }
+
+    return matched;
+}
+
+function splitArguments(value: string): string[] {
+    const args: string[] = [];
+    const regexp = /"([^"]*)"|(\S+)/g;
+    let match = regexp.exec(value);
+
+    while (match) {
+        args.push(typeof match[1] === "string" ? match[1] : match[2]);
+        match = regexp.exec(value);
+    }
+
+    return args;
+}
+
+async function expandInclude(pattern: string, directory: string): Promise<string[]> {
+    let filePath = expandHome(pattern);
+    if (!path.isAbsolute(filePath)) {
+        filePath = path.join(directory, filePath);
+    }
+
+    const baseName = path.basename(filePath);
+    if (!/[*?]/.test(baseName)) {
+        return [filePath];
+    }
+
+    let entries: string[];
+    try {
+        entries = await readdir(path.dirname(filePath));
+    } catch (_) {
+        return [];
+    }
+
+    const regexp = patternToRegExp(baseName);
+    return entries
+        .filter((entry) => regexp.test(entry))
+        .sort()
+        .map((entry) => path.join(path.dirname(filePath), entry));
+}
+
+export async function parseSSHConfig(contents: string,
+                                     directory: string = path.dirname(DEFAULT_SSH_CONFIG_PATH),
+                                     depth: number = 0,
+                                     parentConditions: string[][] = []): Promise<ISSHConfigEntry[]> {
+    let entries: ISSHConfigEntry[] = [];
+    // Anything before the first Host line applies wherever this file was included from
+    let conditions = parentConditions;
+
+    for (const rawLine of contents.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith("#")) {
+            continue;
+        }
+
+        const match = /^(\S+?)(?:\s*=\s*|\s+)(.*)$/.exec(line);
+        if (!match) {
+            continue;
+        }
+
+        const keyword = match[1].toLowerCase();
+        const value = match[2].trim();
+
+        if (keyword === "host") {
+            conditions = parentConditions.concat([splitArguments(value)]);
+        } else if (keyword === "match") {
+            // Match blocks need more context than we have, only "Match all" is understood
+            conditions = parentConditions.concat([value.toLowerCase() === "all" ? ["*"] : []]);
+        } else if (keyword === "include") {
+            if (depth >= 16) {
+                throw new ValidationError("ssh config Include nesting is too deep");
+            }
+            for (const includePattern of splitArguments(value)) {
+                for (const includePath of await expandInclude(includePattern, directory)) {
+                    let included: string;
+                    try {
+                        included = await readFile(includePath, "utf8");
+                    } catch (_) {
+                        continue;
+                    }
+                    entries = entries.concat(await parseSSHConfig(included, directory, depth + 1, conditions));
+                }
+            }
+        } else {
+            entries.push({ conditions, keyword, value });
+        }
+    }
+
+    return entries;
+}
+
+export function getSSHConfigValues(entries: ISSHConfigEntry[], host: string): { [keyword: string]: string[] } {
+    const values: { [keyword: string]: string[] } = {};
+
+    for (const entry of entries) {
+        if (!entry.conditions.every((patterns) => matchesHostPatterns(host, patterns))) {
+            continue;
+        }
+        if (!values[entry.keyword]) {
+            values[entry.keyword] = [entry.value];
+        } else if (entry.keyword === "identityfile") {
+            // The first value wins for everything else, identities add up
+            values[entry.keyword].push(entry.value);
+        }
+    }
+
+    return values;
+}
+
+function parseJumpHost(spec: string, sshConfig: string | boolean): IConnectConfig {
+    const match = /^(?:([^@]+)@)?(\[[^\]]+\]|[^:]+)(?::(\d+))?$/.exec(spec.trim());
+    if (!match) {
+        throw new ValidationError(`Invalid ProxyJump host ${spec}`);
+    }
+
+    const hop: IConnectConfig = { host: match[2].replace(/^\[|\]$/g, ""), sshConfig };
+    if (match[1]) {
+        hop.username = match[1];
+    }
+    if (match[3]) {
+        hop.port = parseInt(match[3], 10);
+    }
+    return hop;
+}
+
+export async function resolveSSHConfig(host: string, sshConfig: string | boolean = true): Promise<IConnectConfig> {
+    const configPath = expandHome(typeof sshConfig === "string" ? sshConfig : DEFAULT_SSH_CONFIG_PATH);
+    const resolved: IConnectConfig = {};
+
+    let contents: string;
+    try {
+        contents = await readFile(configPath, "utf8");
+    } catch (error) {
+        if (error.code === "ENOENT" && typeof sshConfig !== "string") {
+            // Not having a config file at the default location is perfectly normal
+            return resolved;
+        }
+        throw error;
+    }
+
+    const values = getSSHConfigValues(await parseSSHConfig(contents, path.dirname(configPath)), host);
+    const first = (keyword: string) => values[keyword] ? values[keyword][0] : undefined;
+
+    if (first("hostname")) {
+        resolved.host = first("hostname").replace(/%h/g, host);
+    }
+    if (first("user")) {
+        resolved.username = first("user");
+    }
+    if (first("port")) {
+        resolved.port = parseInt(first("port"), 10);
+    }
+    if (first("serveraliveinterval")) {
+        resolved.keepaliveInterval = parseInt(first("serveraliveinterval"), 10) * 1000;
+    }
+    if (first("serveralivecountmax")) {
+        resolved.keepaliveCountMax = parseInt(first("serveralivecountmax"), 10);
+    }
+    if (first("stricthostkeychecking")) {
+        const checking = first("stricthostkeychecking").toLowerCase();
+        resolved.hostKeyPolicy = checking === "yes" ? "strict" : checking === "accept-new" ? "accept-new" : "off";
+    }
+    if (first("userknownhostsfile") && first("userknownhostsfile").toLowerCase() !== "none") {
+        // Only the first of the listed files is used, it's the one ssh writes new keys to as well
+        resolved.knownHosts = expandHome(splitArguments(first("userknownhostsfile"))[0]);
+    }
+    if (values.identityfile) {
+        // Like ssh itself, identities that aren't there are skipped
+        for (const identityFile of values.identityfile) {
+            const identityPath = expandHome(identityFile.replace(/%h/g, host));
+            try {
+                await access(identityPath, fs.constants.R_OK);
+            } catch (_) {
+                continue;
+            }
+            resolved.privateKey = identityPath;
+            break;
+        }
+    }
+    if (first("proxyjump") && first("proxyjump").toLowerCase() !== "none") {
+        resolved.jump = first("proxyjump").split(",")
+            .map((spec) => parseJumpHost(spec, sshConfig))
+            // A catch-all ProxyJump also matches the jump host itself, don't jump through ourselves forever
+            .filter((hop) => hop.host !== host);
+    }
+
+    return resolved;
+}
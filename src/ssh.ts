@@ -1,26 +1,59 @@
 /* @flow */
 
-import * as assert from "assert";
+import { EventEmitter } from "events";
+import * as fs from "fs";
 import * as _ from "lodash";
 import * as path from "path";
 import * as ssh2 from "ssh2";
-import { TransferOptions } from "ssh2-streams";
 import * as stream from "stream";
+import * as zlib from "zlib";
+import {
+    AuthenticationError,
+    CancelledError,
+    CommandFailedError,
+    NotConnectedError,
+    ShellCommandsError,
+    TransferError,
+    validate
+} from "./errors";
+import * as forwarding from "./forwarding";
 import * as helpers from "./helpers";
+import * as knownHosts from "./known-hosts";
+import { ProgressTracker } from "./progress";
+import { RemoteFS } from "./remote-fs";
+import { SftpSessions } from "./sftp-sessions";
+import * as tar from "./tar";
 import {
+    IAuditEntry,
+    ICancelSignal,
     IClientChannelShell,
     ICommand,
+    IConnectConfig,
     IExecCommandOptions,
     IExecCommandResult,
     IExecOptions,
+    IForwardHandle,
+    IGetDirectoryOptions,
     ILocalRemotePair,
-    IPutDirectoryOptions
+    IPrivateKey,
+    IPutDirectoryOptions,
+    IPutStreamOptions,
+    IRunCommandsOptions,
+    IShellCommandResult,
+    ISSHOptions,
+    ISudoOptions,
+    ISyncDirectoryOptions,
+    ISyncDirectoryResult,
+    ITailOptions,
+    ITransferOptions,
+    IWatchOptions
 } from "./types";
+import { RemoteTail, RemoteWatcher } from "./watch";
 
 import scanDirectory from "sb-scandir";
 import shellEscape = require("shell-escape");
 
-export class SSH {
+export class SSH extends EventEmitter {
     public connection?: ssh2.Client;
 
     // hooks for reading stdout during exec statements
@@ -28,81 +61,95 @@ export class SSH {
     public stderr: NodeJS.ReadWriteStream;
 
     private references = 0;
+    private options: ISSHOptions;
+    private connectionPromise: Promise<this> = null;
+    private forwards = new Set<IForwardHandle>();
+    private watchers = new Set<RemoteWatcher>();
+    private checksums: Promise<any> = Promise.resolve();
+    private sftpSessions: SftpSessions = null;
     private sudoPassword: string;
     private sudoModeEnabled: boolean = false;
+    private sudoOptions: ISudoOptions = helpers.normalizeSudoOptions({});
+    private connectConfig: IConnectConfig = null;
+    private target: IConnectConfig = null;
+    private secrets: string[] = [];
+
+    constructor(private config?: IConnectConfig, givenOptions: Partial<ISSHOptions> = {}) {
+        super();
+        validate(_.isObject(givenOptions) && givenOptions, "options must be an object");
 
-    constructor(private config?: ssh2.ConnectConfig) {
         this.connection = null;
+        this.options = helpers.normalizeSSHOptions(givenOptions);
     }
 
-    public enableSudoMode(sudoPassword: string) {
+    public enableSudoMode(sudoPassword: string, givenOptions: Partial<ISudoOptions> = {}) {
+        validate(_.isString(sudoPassword), "sudoPassword must be a string");
+        validate(_.isObject(givenOptions) && givenOptions, "options must be an object");
+
+        this.sudoOptions = helpers.normalizeSudoOptions(givenOptions);
         this.sudoPassword = sudoPassword;
         this.sudoModeEnabled = true;
+        this.updateSecrets();
     }
 
     public diableSudoMode() {
         this.sudoPassword = null;
         this.sudoModeEnabled = false;
+        this.sudoOptions = helpers.normalizeSudoOptions({});
+        this.updateSecrets();
     }
 
-    public async connect(givenConfig?: ssh2.ConnectConfig) {
-        let retval = Promise.resolve(this);
-
+    public async connect(givenConfig?: IConnectConfig) {
         this.references++;
 
-        if (!this.connection) {
-            const connection = new ssh2.Client();
-            this.connection = connection;
+        if (!this.connection && !this.connectionPromise) {
             this.stdout = new stream.PassThrough();
             this.stderr = new stream.PassThrough();
 
-            if (!givenConfig) {
-                givenConfig = this.config;
-            }
-
-            const config = await helpers.normalizeConfig(givenConfig);
-
-            retval = new Promise<this>((resolve, reject) => {
-                connection.on("error", reject);
-
-                connection.on("ready", () => {
-                    connection.removeListener("error", reject);
-                    resolve(this);
-                });
-
-                connection.on("end", () => {
-                    if (this.connection === connection) {
-                        this.connection = null;
-                    }
-                });
-
-                connection.connect(config);
+            this.connectionPromise = helpers.normalizeConfig(givenConfig || this.config).then((config) => {
+                this.connectConfig = config;
+                this.updateSecrets();
+                if (_.isUndefined(config.keepaliveInterval) && !_.isUndefined(this.options.keepaliveInterval)) {
+                    config.keepaliveInterval = this.options.keepaliveInterval;
+                }
+                if (_.isUndefined(config.keepaliveCountMax) && !_.isUndefined(this.options.keepaliveCountMax)) {
+                    config.keepaliveCountMax = this.options.keepaliveCountMax;
+                }
+                return this.establish(config, this.options.retries);
+            }, (error) => {
+                this.connectionPromise = null;
+                throw error;
             });
         }
 
-        return retval;
+        return this.connectionPromise || this;
     }
 
     public async requestSFTP() {
-        const connection = this.connection;
-        assert(connection, "Not connected to server");
+        const connection = this.ensureConnected();
 
         return new Promise<ssh2.SFTPWrapper>((resolve, reject) => {
             connection.sftp(helpers.generateCallback(resolve, reject));
         });
     }
 
+    public async requestFS(givenSftp: ssh2.SFTPWrapper = null): Promise<RemoteFS> {
+        validate(!givenSftp || _.isObject(givenSftp), "sftp must be an object");
+
+        return new RemoteFS(givenSftp || await this.requestSFTP());
+    }
+
     public async mkdir(mkdirPath: string,
                        type: "exec" | "sftp" = "sftp",
                        givenSftp: ssh2.SFTPWrapper = null): Promise<void> {
 
-        assert(this.connection, "Not connected to server");
-        assert(type === "exec" || type === "sftp", "Type should either be sftp or exec");
+        this.ensureConnected();
+        validate(type === "exec" || type === "sftp", "Type should either be sftp or exec");
         if (type === "exec") {
             const output = await this.exec("mkdir", ["-p", mkdirPath]);
         } else {
-            assert(!givenSftp || _.isObject(givenSftp), "sftp must be an object");
-            const sftp = givenSftp || await this.requestSFTP();
+            validate(!givenSftp || _.isObject(givenSftp), "sftp must be an object");
+            const sftp = givenSftp || await this.acquireSftp();
 
             const makeSftpDirectory = (retry) =>
                 helpers.mkdirSftp(mkdirPath, sftp).catch((error) => {
@@ -113,30 +160,46 @@ export class SSH {
                 });
             try {
                 await makeSftpDirectory(true);
+            } catch (error) {
+                throw helpers.toTransferError(error, null, mkdirPath);
             } finally {
                 if (!givenSftp) {
-                    sftp.end();
+                    this.releaseSftp(sftp);
                 }
             }
         }
     }
 
-    public async exec(command: string): Promise<string>;
-    public async exec(command: string, parameters: string[]): Promise<string>;
-    public async exec(command: string, parameters: string[] = [], options: IExecOptions = {}) {
-        assert(this.connection, "Not connected to server");
-        assert(_.isObject(options) && options, "options must be an Object");
-        assert(!options.cwd || _.isString(options.cwd), "options.cwd must be a string");
-        assert(!options.stdin || _.isString(options.stdin), "options.stdin must be a string");
-        assert(!options.stream || ["stdout", "stderr", "both"].indexOf(options.stream) !== -1,
+    public async exec(command: string,
+                      parameters: string[],
+                      options: IExecOptions & { stream: "both", binary: true }): Promise<IExecCommandResult<Buffer>>;
+    public async exec(command: string,
+                      parameters: string[],
+                      options: IExecOptions & { stream: "both" }): Promise<IExecCommandResult>;
+    public async exec(command: string, parameters: string[], options: IExecOptions & { binary: true }): Promise<Buffer>;
+    public async exec(command: string,
+                      parameters?: string[],
+                      options?: IExecOptions & { stream?: "stdout" | "stderr", binary?: false }): Promise<string>;
+    public async exec(command: string,
+                      parameters: string[],
+                      options: IExecOptions): Promise<string | Buffer | IExecCommandResult<string | Buffer>>;
+    public async exec(command: string,
+                      parameters: string[] = [],
+                      options: IExecOptions = {}): Promise<string | Buffer | IExecCommandResult<string | Buffer>> {
+        this.ensureConnected();
+        validate(_.isObject(options) && options, "options must be an Object");
+        validate(!options.cwd || _.isString(options.cwd), "options.cwd must be a string");
+        validate(!options.stdin || _.isString(options.stdin), "options.stdin must be a string");
+        validate(!options.stream || ["stdout", "stderr", "both"].indexOf(options.stream) !== -1,
             'options.stream must be among "stdout", "stderr" and "both"');
-        assert(!options.options || _.isObject(options.options), "options.options must be an object");
+        validate(!options.options || _.isObject(options.options), "options.options must be an object");
+        validate(!options.signal || helpers.isCancelSignal(options.signal), "options.signal must be an AbortSignal");
 
-        const output = await this.execCommand([command].concat(shellEscape(parameters)).join(" "), options);
+        const commandLine = [command].concat(shellEscape(parameters)).join(" ");
+        // Only stdout is returned by default, anything written to stderr is all there is to tell that it failed
+        const failOn = options.failOn || (!options.stream || options.stream === "stdout" ? "stderr" : "never");
+        const output: IExecCommandResult<string | Buffer> = await this.execCommand(commandLine, { ...options, failOn });
         if (!options.stream || options.stream === "stdout") {
-            if (output.stderr) {
-                throw new Error(output.stderr);
-            }
             return output.stdout;
         }
         if (options.stream === "stderr") {
@@ -145,81 +208,75 @@ export class SSH {
         return output;
     }
 
-    public async execCommand(givenCommand: string, options: IExecCommandOptions = {}) {
-        let command = givenCommand;
-        const connection = this.connection;
-        assert(connection, "Not connected to server");
-        assert(_.isObject(options) && options, "options must be an Object");
-        assert(!options.cwd || _.isString(options.cwd), "options.cwd must be a string");
-        assert(!options.stdin || _.isString(options.stdin), "options.stdin must be a string");
-        assert(!options.options || _.isObject(options.options), "options.options must be an object");
-        assert(_.isUndefined(options.useSudo) || _.isBoolean(options.useSudo), "options.useSudo must be a boolean");
-
-        if (options.cwd) {
-            // NOTE: Output piping cd command to hide directory non-existent errors
-            command = `cd ${shellEscape([options.cwd])} 1> /dev/null 2> /dev/null; ${command}`;
-        }
-        const output = { stdout: [], stderr: [] };
-        const shouldCheckPassword = options && options.useSudo && this.sudoModeEnabled;
-
-        return new Promise<IExecCommandResult>((resolve, reject) => {
-            const handleCallback = (originalChannel: ssh2.ClientChannel) => {
-                const channel = this.wrapChannel(originalChannel);
-
-                if (shouldCheckPassword) {
-                    channel.once("password", (callback) => {
-                        channel.write(`${this.sudoPassword}\n`);
-                    });
-                }
-
-                channel.stdout.on("data", (chunk) => {
-                    output.stdout.push(chunk);
-                });
-
-                channel.stderr.on("data", (chunk) => {
-                    output.stderr.push(chunk);
-                });
-
-                if (options.stdin) {
-                    channel.write(options.stdin);
-                    channel.end();
-                }
-
-                channel.on("close", (code, signal) => {
-                    resolve({
-                        code,
-                        signal,
-                        stderr: output.stderr.join("").trim(),
-                        stdout: output.stdout.join("").trim()
-                    });
-                });
-            };
-
-            connection.exec(command, options.options || {}, helpers.generateCallback(handleCallback, reject));
-        });
+    public async execCommand(command: string,
+                             options: IExecCommandOptions & { binary: true }): Promise<IExecCommandResult<Buffer>>;
+    public async execCommand(command: string, options?: IExecCommandOptions): Promise<IExecCommandResult>;
+    public async execCommand(command: string, options: IExecCommandOptions = {}) {
+        return this.execute(command, options);
     }
 
     public async getFile(localFile: string,
                          remoteFile: string,
                          givenSftp: ssh2.SFTPWrapper = null,
-                         givenOpts: TransferOptions = null): Promise<void> {
+                         givenOpts: ITransferOptions = null): Promise<void> {
 
-        assert(this.connection, "Not connected to server");
-        assert(_.isString(localFile) && localFile, "localFile must be a string");
-        assert(_.isString(remoteFile) && remoteFile, "remoteFile must be a string");
-        assert(!givenSftp || _.isObject(givenSftp), "sftp must be an object");
-        assert(!givenOpts || _.isObject(givenOpts), "opts must be an object");
+        this.ensureConnected();
+        validate(_.isString(localFile) && localFile, "localFile must be a string");
+        validate(_.isString(remoteFile) && remoteFile, "remoteFile must be a string");
+        validate(!givenSftp || _.isObject(givenSftp), "sftp must be an object");
+        validate(!givenOpts || _.isObject(givenOpts), "opts must be an object");
+        validate(!givenOpts || !givenOpts.signal || helpers.isCancelSignal(givenOpts.signal),
+            "opts.signal must be an AbortSignal");
 
-        const opts = givenOpts || {};
-        const sftp = givenSftp || await this.requestSFTP();
+        const opts = helpers.normalizeTransferOptions(givenOpts || {});
+        const connection = this.connection;
+        const sftp = givenSftp || await this.acquireSftp(opts.signal);
+        const stopCancel = helpers.onCancel(opts.signal, () => helpers.abortSftp(sftp));
+        const file = { local: localFile, remote: remoteFile };
+        const tracker = opts.onProgress ? new ProgressTracker(opts.onProgress, [file]) : null;
 
+        this.log("debug", `Downloading ${remoteFile} to ${localFile}`);
         try {
-            await new Promise((resolve, reject) => {
-                sftp.fastGet(remoteFile, localFile, opts, helpers.generateCallback(resolve, reject));
-            });
+            helpers.throwIfCancelled(opts.signal);
+            const linked = opts.symlinks !== "follow" && helpers.getFileType(
+                await helpers.raceCancel(opts.signal, helpers.lstatSftp(remoteFile, sftp))) === "symlink";
+            if (linked) {
+                if (opts.symlinks === "copy") {
+                    const target = await helpers.raceCancel(opts.signal, helpers.readlinkSftp(remoteFile, sftp));
+                    await helpers.symlinkLocal(target, localFile);
+                }
+                if (tracker) {
+                    tracker.complete(file);
+                }
+                return;
+            }
+            const remoteStats = opts.preserveMode || opts.preserveTimes ?
+                await helpers.raceCancel(opts.signal, helpers.statSftp(remoteFile, sftp)) : null;
+            if (opts.preserveMode && typeof opts.mode !== "number") {
+                opts.mode = helpers.getPermissions(remoteStats);
+            }
+            await helpers.raceCancel(opts.signal, new Promise((resolve, reject) => {
+                sftp.fastGet(remoteFile, localFile, tracker ? tracker.getTransferOptions(file, opts) : opts,
+                    helpers.generateCallback(resolve, reject));
+            }));
+            if (opts.preserveTimes) {
+                await helpers.utimes(localFile, remoteStats.atime, remoteStats.mtime);
+            }
+            if (tracker) {
+                tracker.complete(file);
+            }
+        } catch (error) {
+            helpers.throwIfCancelled(opts.signal);
+            // Downloading again is harmless, so it's safe to pick up where a dropped connection left us
+            if (!givenSftp && this.options.retryIdempotent && await this.waitForReconnect(connection)) {
+                this.log("warn", `Connection dropped while downloading ${remoteFile}, retrying`);
+                return this.getFile(localFile, remoteFile, null, givenOpts);
+            }
+            throw helpers.toTransferError(error, localFile, remoteFile);
         } finally {
+            stopCancel();
             if (!givenSftp) {
-                sftp.end();
+                this.releaseSftp(sftp);
             }
         }
     }
@@ -227,24 +284,38 @@ export class SSH {
     public async putFile(localFile: string,
                          remoteFile: string,
                          givenSftp: ssh2.SFTPWrapper = null,
-                         givenOpts: TransferOptions = null): Promise<void> {
+                         givenOpts: ITransferOptions = null): Promise<void> {
 
-        assert(this.connection, "Not connected to server");
-        assert(_.isString(localFile) && localFile, "localFile must be a string");
-        assert(_.isString(remoteFile) && remoteFile, "remoteFile must be a string");
-        assert(!givenSftp || _.isObject(givenSftp), "sftp must be an object");
-        assert(!givenOpts || _.isObject(givenOpts), "opts must be an object");
-        assert(await helpers.exists(localFile), `localFile does not exist at ${localFile}`);
+        this.ensureConnected();
+        validate(_.isString(localFile) && localFile, "localFile must be a string");
+        validate(_.isString(remoteFile) && remoteFile, "remoteFile must be a string");
+        validate(!givenSftp || _.isObject(givenSftp), "sftp must be an object");
+        validate(!givenOpts || _.isObject(givenOpts), "opts must be an object");
+        validate(!givenOpts || !givenOpts.signal || helpers.isCancelSignal(givenOpts.signal),
+            "opts.signal must be an AbortSignal");
+        validate(await helpers.exists(localFile), `localFile does not exist at ${localFile}`);
 
         const that = this;
-        const opts = givenOpts || {};
-        const sftp = givenSftp || await this.requestSFTP();
+        const opts = helpers.normalizeTransferOptions(givenOpts || {});
+        const linked = opts.symlinks !== "follow" && (await helpers.lstat(localFile)).isSymbolicLink();
+        const localStats = opts.preserveMode || opts.preserveTimes ? await helpers.stat(localFile) : null;
+        if (opts.preserveMode && typeof opts.mode !== "number") {
+            opts.mode = helpers.getPermissions(localStats);
+        }
+        const sftp = givenSftp || await this.acquireSftp(opts.signal);
+        const file = { local: localFile, remote: remoteFile };
+        const tracker = await this.trackLocalFiles([file], opts);
+        const transferOpts: ITransferOptions = tracker ? tracker.getTransferOptions(file, opts) : opts;
+        const stopCancel = helpers.onCancel(opts.signal, () => helpers.abortSftp(sftp));
+        // Atomic uploads go to a hidden sibling first, the target is only replaced once that's complete
+        const uploadFile = opts.atomic ? helpers.getTemporaryPath(remoteFile) : remoteFile;
 
         function putFile(retry: boolean) {
             return new Promise((resolve, reject) => {
-                sftp.fastPut(localFile, remoteFile, opts, helpers.generateCallback(resolve, (error: Error) => {
-                    if (error.message === "No such file" && retry) {
-                        resolve(that.mkdir(path.dirname(remoteFile), "sftp", sftp).then(() => putFile(false)));
+                sftp.fastPut(localFile, uploadFile, transferOpts, helpers.generateCallback(resolve, (error: Error) => {
+                    const missing = error.message === "No such file" || helpers.transformError(error).code === "ENOENT";
+                    if (missing && retry) {
+                        resolve(that.mkdir(path.dirname(uploadFile), "sftp", sftp).then(() => putFile(false)));
                     } else {
                         reject(error);
                     }
@@ -252,50 +323,202 @@ export class SSH {
             });
         }
 
+        this.log("debug", `Uploading ${localFile} to ${remoteFile}`);
+        try {
+            helpers.throwIfCancelled(opts.signal);
+            if (linked) {
+                if (opts.symlinks === "copy") {
+                    const target = await helpers.readlink(localFile);
+                    await helpers.raceCancel(opts.signal, helpers.symlinkSftp(target, remoteFile, sftp));
+                }
+                if (tracker) {
+                    tracker.complete(file);
+                }
+                return;
+            }
+            if (opts.atomic && typeof opts.mode !== "number") {
+                // NOTE: The temporary sibling gets default permissions, renaming it over the target would drop its own
+                const targetStats = await helpers.raceCancel(opts.signal, helpers.statSftp(remoteFile, sftp)
+                    .catch((error) => error.code === "ENOENT" ? null : Promise.reject(error)));
+                if (targetStats) {
+                    transferOpts.mode = helpers.getPermissions(targetStats);
+                }
+            }
+            const localHash = opts.verify ? await helpers.hashFile(localFile) : null;
+            for (let attempt = 0; ; attempt++) {
+                await helpers.raceCancel(opts.signal, putFile(true));
+                if (!opts.verify ||
+                    localHash === await helpers.raceCancel(opts.signal, this.hashRemoteFile(uploadFile))) {
+                    break;
+                }
+                if (attempt >= opts.verifyRetries) {
+                    throw new TransferError(`Checksum of ${remoteFile} does not match ${localFile} after upload`,
+                        localFile, remoteFile, "ECHECKSUM");
+                }
+                this.log("warn", `Checksum of ${remoteFile} does not match ${localFile} after upload, retrying`);
+            }
+            if (opts.preserveTimes) {
+                await helpers.raceCancel(opts.signal, new Promise((resolve, reject) => {
+                    sftp.utimes(uploadFile, localStats.atime, localStats.mtime,
+                        helpers.generateCallback(resolve, reject));
+                }));
+            }
+            if (opts.atomic) {
+                await helpers.raceCancel(opts.signal, helpers.replaceSftp(uploadFile, remoteFile, sftp));
+            }
+            if (tracker) {
+                tracker.complete(file);
+            }
+        } catch (error) {
+            helpers.throwIfCancelled(opts.signal);
+            if (opts.atomic) {
+                // NOTE: Not waited for, a dropped connection is one of the reasons to end up here
+                sftp.unlink(uploadFile, _.noop);
+            }
+            throw helpers.toTransferError(error, localFile, remoteFile);
+        } finally {
+            stopCancel();
+            if (!givenSftp) {
+                this.releaseSftp(sftp);
+            }
+        }
+    }
+
+    public async putStream(readable: NodeJS.ReadableStream,
+                           remoteFile: string,
+                           givenSftp: ssh2.SFTPWrapper = null,
+                           givenOpts: Partial<IPutStreamOptions> = {}): Promise<void> {
+
+        this.ensureConnected();
+        validate(readable && typeof readable.pipe === "function", "readable must be a readable stream");
+        validate(_.isString(remoteFile) && remoteFile, "remoteFile must be a string");
+        validate(!givenSftp || _.isObject(givenSftp), "sftp must be an object");
+        validate(_.isObject(givenOpts) && givenOpts, "opts must be an object");
+
+        const opts = helpers.normalizePutStreamOptions(givenOpts);
+        const sftp = givenSftp || await this.acquireSftp(opts.signal);
+        let onCancelled = () => undefined;
+        const stopCancel = helpers.onCancel(opts.signal, () => {
+            helpers.abortSftp(sftp);
+            onCancelled();
+        });
+
         try {
-            await putFile(true);
+            helpers.throwIfCancelled(opts.signal);
+            const writeStream = await this.openWriteStream(remoteFile, sftp, opts, true);
+            await new Promise((resolve, reject) => {
+                // NOTE: A pipe waiting on its readable has no requests in flight for the ended session to fail
+                onCancelled = () => {
+                    readable.unpipe(writeStream);
+                    reject(new CancelledError());
+                };
+                readable.once("error", (error: Error) => {
+                    writeStream.end();
+                    reject(error);
+                });
+                writeStream.once("error", (error: Error) => reject(helpers.transformError(error)));
+                writeStream.once("close", resolve);
+                readable.pipe(writeStream);
+            });
+        } catch (error) {
+            helpers.throwIfCancelled(opts.signal);
+            throw helpers.toTransferError(error, null, remoteFile);
         } finally {
+            stopCancel();
             if (!givenSftp) {
-                sftp.end();
+                this.releaseSftp(sftp);
             }
         }
     }
 
+    public async putContent(contents: string | Buffer,
+                            remoteFile: string,
+                            givenSftp: ssh2.SFTPWrapper = null,
+                            givenOpts: Partial<IPutStreamOptions> = {}): Promise<void> {
+
+        validate(typeof contents === "string" || Buffer.isBuffer(contents), "contents must be a string or a Buffer");
+
+        const readable = new stream.PassThrough();
+        readable.end(contents);
+        await this.putStream(readable, remoteFile, givenSftp, givenOpts);
+    }
+
+    public async getStream(remoteFile: string, givenSftp: ssh2.SFTPWrapper = null): Promise<stream.Readable> {
+        this.ensureConnected();
+        validate(_.isString(remoteFile) && remoteFile, "remoteFile must be a string");
+        validate(!givenSftp || _.isObject(givenSftp), "sftp must be an object");
+
+        const sftp = givenSftp || await this.acquireSftp();
+        const readStream = sftp.createReadStream(remoteFile);
+        if (!givenSftp) {
+            readStream.once("close", () => this.releaseSftp(sftp));
+        }
+
+        // Wait for the remote file to be opened, a missing file should reject and not surface on the stream later
+        return new Promise<stream.Readable>((resolve, reject) => {
+            const onError = (error: Error) => {
+                readStream.removeListener("open", onOpen);
+                reject(helpers.toTransferError(error, null, remoteFile));
+            };
+            const onOpen = () => {
+                readStream.removeListener("error", onError);
+                resolve(readStream);
+            };
+            readStream.once("error", onError);
+            readStream.once("open", onOpen);
+        });
+    }
+
     public async putFiles(files: Array<{ local: string, remote: string }>,
                           givenSftp: ssh2.SFTPWrapper = null,
                           maxAtOnce: number = 5,
-                          givenOpts: TransferOptions = null): Promise<void> {
+                          givenOpts: ITransferOptions = null): Promise<void> {
 
-        assert(this.connection, "Not connected to server");
-        assert(!givenSftp || _.isObject(givenSftp), "sftp must be an object");
-        assert(!givenOpts || _.isObject(givenOpts), "opts must be an object");
-        assert(Array.isArray(files), "files must be an array");
-        assert(typeof maxAtOnce === "number" && Number.isFinite(maxAtOnce), "maxAtOnce must be a valid number");
+        this.ensureConnected();
+        validate(!givenSftp || _.isObject(givenSftp), "sftp must be an object");
+        validate(!givenOpts || _.isObject(givenOpts), "opts must be an object");
+        validate(!givenOpts || !givenOpts.signal || helpers.isCancelSignal(givenOpts.signal),
+            "opts.signal must be an AbortSignal");
+        validate(Array.isArray(files), "files must be an array");
+        validate(typeof maxAtOnce === "number" && Number.isFinite(maxAtOnce), "maxAtOnce must be a valid number");
 
         for (let i = 0, length = files.length; i < length; ++i) {
             const file = files[i];
-            assert(file, "files items must be valid objects");
-            assert(file.local && _.isString(file.local), `files[${i}].local must be a string`);
-            assert(file.remote && _.isString(file.remote), `files[${i}].remote must be a string`);
+            validate(file, "files items must be valid objects");
+            validate(file.local && _.isString(file.local), `files[${i}].local must be a string`);
+            validate(file.remote && _.isString(file.remote), `files[${i}].remote must be a string`);
         }
 
-        const opts = givenOpts || {};
-        const sftp = givenSftp || await this.requestSFTP();
-        let transferred = [];
+        const opts = helpers.normalizeTransferOptions(givenOpts || {});
+        const sftp = givenSftp || await this.acquireSftp(opts.signal);
+        const tracker = await this.trackLocalFiles(files, opts);
+        const stopCancel = helpers.onCancel(opts.signal, () => helpers.abortSftp(sftp));
+        // NOTE: Cancelling is handled for the batch as a whole, files don't each need to listen for it
+        const fileOpts: ITransferOptions = _.omit(opts, "signal");
+        const transferred = [];
 
         try {
             for (let i = 0, length = Math.ceil(files.length / maxAtOnce); i < length; i++) {
+                // Files that haven't been started yet are never scheduled once cancelled
+                helpers.throwIfCancelled(opts.signal, transferred);
                 const index = i * maxAtOnce;
                 const chunk = files.slice(index, index + maxAtOnce);
-                await Promise.all(chunk.map((file) => this.putFile(file.local, file.remote, sftp, opts)));
-                transferred = transferred.concat(chunk);
+                await helpers.raceCancel(opts.signal, Promise.all(chunk.map(async (file) => {
+                    await this.putFile(file.local, file.remote, sftp,
+                        tracker ? tracker.getTransferOptions(file, fileOpts) : fileOpts);
+                    if (tracker) {
+                        tracker.complete(file);
+                    }
+                    transferred.push(file);
+                })));
             }
         } catch (error) {
-            error.transferred = transferred;
-            throw error;
+            helpers.throwIfCancelled(opts.signal, transferred);
+            throw helpers.toTransferError(error, null, null, transferred);
         } finally {
-            if (!sftp) {
-                sftp.end();
+            stopCancel();
+            if (!givenSftp) {
+                this.releaseSftp(sftp);
             }
         }
     }
@@ -304,81 +527,448 @@ export class SSH {
                               remoteDirectory: string,
                               givenConfig: Partial<IPutDirectoryOptions> = {},
                               givenSftp: ssh2.SFTPWrapper = null,
-                              givenOpts: TransferOptions = null): Promise<boolean> {
+                              givenOpts: ITransferOptions = null): Promise<boolean> {
 
-        assert(this.connection, "Not connected to server");
-        assert(_.isString(localDirectory) && localDirectory, "localDirectory must be a string");
-        assert(_.isString(remoteDirectory) && remoteDirectory, "localDirectory must be a string");
-        assert(await helpers.exists(localDirectory), `localDirectory does not exist at ${localDirectory}`);
-        assert((await helpers.stat(localDirectory)).isDirectory(),
+        this.ensureConnected();
+        validate(_.isString(localDirectory) && localDirectory, "localDirectory must be a string");
+        validate(_.isString(remoteDirectory) && remoteDirectory, "localDirectory must be a string");
+        validate(await helpers.exists(localDirectory), `localDirectory does not exist at ${localDirectory}`);
+        validate((await helpers.stat(localDirectory)).isDirectory(),
             `localDirectory is not a directory at ${localDirectory}`);
-        assert(_.isObject(givenConfig) && givenConfig, "config must be an object");
-        assert(!givenSftp || _.isObject(givenSftp), "sftp must be an object");
-        assert(!givenOpts || _.isObject(givenOpts), "opts must be an object");
+        validate(_.isObject(givenConfig) && givenConfig, "config must be an object");
+        validate(!givenSftp || _.isObject(givenSftp), "sftp must be an object");
+        validate(!givenOpts || _.isObject(givenOpts), "opts must be an object");
+        validate(!givenOpts || !givenOpts.signal || helpers.isCancelSignal(givenOpts.signal),
+            "opts.signal must be an AbortSignal");
 
-        const opts = givenOpts || {};
-        const sftp = givenSftp || await this.requestSFTP();
+        const opts = helpers.normalizeTransferOptions(givenOpts || {});
         const config = helpers.normalizePutDirectoryConfig(givenConfig);
-        const files = (await scanDirectory(localDirectory, config.recursive, config.validate))
-            .map((i) => path.relative(localDirectory, i));
+        const files: ILocalRemotePair[] = (await this.scanLocalDirectory(localDirectory, config, opts))
+            .map((i) => path.relative(localDirectory, i))
+            .map((file) => ({
+                local: path.join(localDirectory, file),
+                remote: path.join(remoteDirectory, file).split(path.sep).join("/")
+            }));
+        // NOTE: Atomic and verified uploads replace files one at a time, those stay on SFTP
+        const transport = config.transport === "tar" && !opts.atomic && !opts.verify && await this.hasRemoteTar() ?
+            "tar" : "sftp";
+        this.log("info", `Uploading ${localDirectory} to ${remoteDirectory}`, { files: files.length, transport });
+        if (transport === "tar") {
+            return this.putDirectoryTar(localDirectory, remoteDirectory, files, config, opts);
+        }
+        const sftp = givenSftp || await this.acquireSftp(opts.signal);
+        const tracker = await this.trackLocalFiles(files, opts);
+        const stopCancel = helpers.onCancel(opts.signal, () => helpers.abortSftp(sftp));
+        const fileOpts: ITransferOptions = _.omit(opts, "signal");
+        const transferred: ILocalRemotePair[] = [];
         const directoriesCreated = new Set();
         let directoriesQueue = Promise.resolve();
 
         // eslint-disable-next-line arrow-parens
         const promises = files.map(async (file) => {
-            const localFile = path.join(localDirectory, file);
-            const remoteFile = path.join(remoteDirectory, file).split(path.sep).join("/");
-            const remoteFileDirectory = path.dirname(remoteFile);
+            const remoteFileDirectory = path.dirname(file.remote);
             if (!directoriesCreated.has(remoteFileDirectory)) {
                 directoriesCreated.add(remoteFileDirectory);
-                directoriesQueue = directoriesQueue.then(() => this.mkdir(remoteFileDirectory, "sftp", sftp));
-                await directoriesQueue;
+                directoriesQueue = directoriesQueue.then(() => {
+                    helpers.throwIfCancelled(opts.signal);
+                    return this.mkdir(remoteFileDirectory, "sftp", sftp);
+                });
             }
             try {
-                await this.putFile(localFile, remoteFile, sftp, opts);
-                config.tick(localFile, remoteFile, null);
+                await directoriesQueue;
+                helpers.throwIfCancelled(opts.signal);
+                await this.putFile(file.local, file.remote, sftp,
+                    tracker ? tracker.getTransferOptions(file, fileOpts) : fileOpts);
+                config.tick(file.local, file.remote, null);
+                if (tracker) {
+                    tracker.complete(file);
+                }
+                transferred.push(file);
                 return true;
             } catch (_) {
-                config.tick(localFile, remoteFile, _);
+                config.tick(file.local, file.remote, helpers.toTransferError(_, file.local, file.remote));
+                if (tracker) {
+                    tracker.complete(file, false);
+                }
                 return false;
             }
         });
 
         let results;
         try {
-            results = await Promise.all(promises);
+            results = await helpers.raceCancel(opts.signal, Promise.all(promises));
+        } catch (error) {
+            helpers.throwIfCancelled(opts.signal, transferred);
+            throw helpers.toTransferError(error, localDirectory, remoteDirectory, transferred);
+        } finally {
+            stopCancel();
+            if (!givenSftp) {
+                this.releaseSftp(sftp);
+            }
+        }
+
+        helpers.throwIfCancelled(opts.signal, transferred);
+        return results.every((i) => i);
+    }
+
+    public async syncDirectory(localDirectory: string,
+                               remoteDirectory: string,
+                               givenConfig: Partial<ISyncDirectoryOptions> = {},
+                               givenSftp: ssh2.SFTPWrapper = null,
+                               givenOpts: ITransferOptions = null): Promise<ISyncDirectoryResult> {
+
+        this.ensureConnected();
+        validate(_.isString(localDirectory) && localDirectory, "localDirectory must be a string");
+        validate(_.isString(remoteDirectory) && remoteDirectory, "remoteDirectory must be a string");
+        validate(await helpers.exists(localDirectory), `localDirectory does not exist at ${localDirectory}`);
+        validate((await helpers.stat(localDirectory)).isDirectory(),
+            `localDirectory is not a directory at ${localDirectory}`);
+        validate(_.isObject(givenConfig) && givenConfig, "config must be an object");
+        validate(!givenSftp || _.isObject(givenSftp), "sftp must be an object");
+        validate(!givenOpts || _.isObject(givenOpts), "opts must be an object");
+        validate(!givenOpts || !givenOpts.signal || helpers.isCancelSignal(givenOpts.signal),
+            "opts.signal must be an AbortSignal");
+
+        const opts = helpers.normalizeTransferOptions(givenOpts || {});
+        const sftp = givenSftp || await this.acquireSftp(opts.signal);
+        const config = helpers.normalizeSyncDirectoryConfig(givenConfig);
+        const result: ISyncDirectoryResult = { successful: true, uploaded: [], skipped: [], failed: [], deleted: [] };
+        const stopCancel = helpers.onCancel(opts.signal, () => helpers.abortSftp(sftp));
+        // NOTE: Mirror the local mtime so unchanged files are skipped on the next sync
+        const fileOpts: ITransferOptions = { ..._.omit(opts, "signal"), preserveTimes: true };
+        const directoriesCreated = new Set();
+        let directoriesQueue = Promise.resolve();
+
+        try {
+            helpers.throwIfCancelled(opts.signal);
+            const files: ILocalRemotePair[] = (await this.scanLocalDirectory(localDirectory, config, opts))
+                .map((i) => path.relative(localDirectory, i))
+                .map((file) => ({
+                    local: path.join(localDirectory, file),
+                    remote: path.join(remoteDirectory, file).split(path.sep).join("/")
+                }));
+            const changed = await helpers.raceCancel(opts.signal,
+                this.filterChangedFiles(files, sftp, config.checksum));
+            result.skipped = files.filter((file) => changed.indexOf(file) === -1);
+            this.log("info", `Syncing ${localDirectory} to ${remoteDirectory}`,
+                { changed: changed.length, skipped: result.skipped.length });
+            const tracker = await this.trackLocalFiles(changed, opts);
+
+            await helpers.raceCancel(opts.signal, Promise.all(changed.map(async (file) => {
+                const remoteFileDirectory = path.posix.dirname(file.remote);
+                if (!directoriesCreated.has(remoteFileDirectory)) {
+                    directoriesCreated.add(remoteFileDirectory);
+                    directoriesQueue = directoriesQueue.then(() => {
+                        helpers.throwIfCancelled(opts.signal);
+                        return this.mkdir(remoteFileDirectory, "sftp", sftp);
+                    });
+                }
+                try {
+                    await directoriesQueue;
+                    helpers.throwIfCancelled(opts.signal);
+                    await this.putFile(file.local, file.remote, sftp,
+                        tracker ? tracker.getTransferOptions(file, fileOpts) : fileOpts);
+                    result.uploaded.push(file);
+                    config.tick(file.local, file.remote, null);
+                    if (tracker) {
+                        tracker.complete(file);
+                    }
+                } catch (_) {
+                    result.failed.push(file);
+                    config.tick(file.local, file.remote, helpers.toTransferError(_, file.local, file.remote));
+                    if (tracker) {
+                        tracker.complete(file, false);
+                    }
+                }
+            })));
+
+            helpers.throwIfCancelled(opts.signal);
+            if (config.delete) {
+                const expected = new Set(files.map((file) => path.posix.normalize(file.remote)));
+                const remoteDirectories: string[] = [];
+                let remoteFiles: string[] = [];
+                try {
+                    remoteFiles = await helpers.raceCancel(opts.signal, helpers.scanDirectorySftp(remoteDirectory,
+                        sftp, config.recursive, config.validate, false, remoteDirectories));
+                } catch (error) {
+                    if (error.code !== "ENOENT" && error.message !== "No such file") {
+                        throw error;
+                    }
+                }
+
+                for (const remoteFile of remoteFiles) {
+                    if (expected.has(path.posix.normalize(remoteFile))) {
+                        continue;
+                    }
+                    helpers.throwIfCancelled(opts.signal);
+                    try {
+                        await helpers.raceCancel(opts.signal, new Promise((resolve, reject) => {
+                            sftp.unlink(remoteFile, helpers.generateCallback(resolve, reject));
+                        }));
+                        result.deleted.push(remoteFile);
+                        this.log("debug", `Deleted ${remoteFile}`);
+                    } catch (_) {
+                        result.successful = false;
+                    }
+                }
+
+                // Deepest first, each one is empty by the time it is removed unless something in it was kept
+                for (const remoteSubdirectory of remoteDirectories) {
+                    const localSubdirectory = path.join(localDirectory,
+                        path.posix.relative(remoteDirectory, remoteSubdirectory));
+                    const localStats = await helpers.stat(localSubdirectory).catch(() => null);
+                    if (localStats && localStats.isDirectory()) {
+                        continue;
+                    }
+                    helpers.throwIfCancelled(opts.signal);
+                    try {
+                        await helpers.raceCancel(opts.signal, new Promise((resolve, reject) => {
+                            sftp.rmdir(remoteSubdirectory, helpers.generateCallback(resolve, reject));
+                        }));
+                        result.deleted.push(remoteSubdirectory);
+                        this.log("debug", `Deleted ${remoteSubdirectory}`);
+                    } catch (_) {
+                        result.successful = false;
+                    }
+                }
+            }
+        } catch (error) {
+            helpers.throwIfCancelled(opts.signal, result.uploaded);
+            throw helpers.toTransferError(error, localDirectory, remoteDirectory, result.uploaded);
+        } finally {
+            stopCancel();
+            if (!givenSftp) {
+                this.releaseSftp(sftp);
+            }
+        }
+
+        helpers.throwIfCancelled(opts.signal, result.uploaded);
+        result.successful = result.successful && result.failed.length === 0;
+        return result;
+    }
+
+    public async getDirectory(localDirectory: string,
+                              remoteDirectory: string,
+                              givenConfig: Partial<IGetDirectoryOptions> = {},
+                              givenSftp: ssh2.SFTPWrapper = null,
+                              givenOpts: ITransferOptions = null): Promise<boolean> {
+
+        this.ensureConnected();
+        validate(_.isString(localDirectory) && localDirectory, "localDirectory must be a string");
+        validate(_.isString(remoteDirectory) && remoteDirectory, "remoteDirectory must be a string");
+        validate(_.isObject(givenConfig) && givenConfig, "config must be an object");
+        validate(!givenSftp || _.isObject(givenSftp), "sftp must be an object");
+        validate(!givenOpts || _.isObject(givenOpts), "opts must be an object");
+        validate(!givenOpts || !givenOpts.signal || helpers.isCancelSignal(givenOpts.signal),
+            "opts.signal must be an AbortSignal");
+
+        const opts = helpers.normalizeTransferOptions(givenOpts || {});
+        const sftp = givenSftp || await this.acquireSftp(opts.signal);
+        const config = helpers.normalizePutDirectoryConfig(givenConfig);
+        const stopCancel = helpers.onCancel(opts.signal, () => helpers.abortSftp(sftp));
+        const fileOpts: ITransferOptions = _.omit(opts, "signal");
+        const transferred: ILocalRemotePair[] = [];
+        const directoriesCreated = new Set();
+        let directoriesQueue = Promise.resolve();
+
+        let results;
+        try {
+            helpers.throwIfCancelled(opts.signal);
+            const remoteFiles = await helpers.raceCancel(opts.signal,
+                helpers.scanDirectorySftp(remoteDirectory, sftp, config.recursive, config.validate,
+                    opts.symlinks === "follow"));
+            const files: ILocalRemotePair[] = remoteFiles
+                .map((i) => path.posix.relative(remoteDirectory, i))
+                .map((file) => ({
+                    local: path.join(localDirectory, ...file.split("/")),
+                    remote: path.posix.join(remoteDirectory, file)
+                }));
+            const transport = config.transport === "tar" &&
+                await helpers.raceCancel(opts.signal, this.hasRemoteTar()) ? "tar" : "sftp";
+            this.log("info", `Downloading ${remoteDirectory} to ${localDirectory}`,
+                { files: files.length, transport });
+            if (transport === "tar") {
+                results = [await this.getDirectoryTar(remoteDirectory, files, config, opts, transferred)];
+            } else {
+                const tracker = opts.onProgress ? new ProgressTracker(opts.onProgress, files) : null;
+
+                const promises = files.map(async (file) => {
+                    const localFileDirectory = path.dirname(file.local);
+                    if (!directoriesCreated.has(localFileDirectory)) {
+                        directoriesCreated.add(localFileDirectory);
+                        directoriesQueue = directoriesQueue.then(() => helpers.mkdirLocal(localFileDirectory));
+                    }
+                    try {
+                        await directoriesQueue;
+                        helpers.throwIfCancelled(opts.signal);
+                        await this.getFile(file.local, file.remote, sftp,
+                            tracker ? tracker.getTransferOptions(file, fileOpts) : fileOpts);
+                        config.tick(file.local, file.remote, null);
+                        if (tracker) {
+                            tracker.complete(file);
+                        }
+                        transferred.push(file);
+                        return true;
+                    } catch (_) {
+                        config.tick(file.local, file.remote, helpers.toTransferError(_, file.local, file.remote));
+                        if (tracker) {
+                            tracker.complete(file, false);
+                        }
+                        return false;
+                    }
+                });
+
+                results = await helpers.raceCancel(opts.signal, Promise.all(promises));
+            }
+        } catch (error) {
+            helpers.throwIfCancelled(opts.signal, transferred);
+            throw helpers.toTransferError(error, localDirectory, remoteDirectory, transferred);
         } finally {
+            stopCancel();
             if (!givenSftp) {
-                sftp.end();
+                this.releaseSftp(sftp);
             }
         }
 
+        helpers.throwIfCancelled(opts.signal, transferred);
         return results.every((i) => i);
     }
 
+    public async forwardLocal(localPort: number,
+                              remoteHost: string,
+                              remotePort: number,
+                              localHost: string = "127.0.0.1"): Promise<IForwardHandle> {
+
+        const connection = this.ensureConnected();
+        validate(_.isNumber(localPort), "localPort must be a number");
+        validate(_.isString(remoteHost) && remoteHost, "remoteHost must be a string");
+        validate(_.isNumber(remotePort), "remotePort must be a number");
+        validate(_.isString(localHost) && localHost, "localHost must be a string");
+
+        return this.trackForward(await forwarding.forwardLocal(connection, localPort, remoteHost, remotePort,
+            localHost));
+    }
+
+    public async forwardRemote(remotePort: number,
+                               localHost: string,
+                               localPort: number,
+                               remoteHost: string = "127.0.0.1"): Promise<IForwardHandle> {
+
+        const connection = this.ensureConnected();
+        validate(_.isNumber(remotePort), "remotePort must be a number");
+        validate(_.isString(localHost) && localHost, "localHost must be a string");
+        validate(_.isNumber(localPort), "localPort must be a number");
+        validate(_.isString(remoteHost) && remoteHost, "remoteHost must be a string");
+
+        return this.trackForward(await forwarding.forwardRemote(connection, remotePort, localHost, localPort,
+            remoteHost));
+    }
+
+    public async forwardDynamic(localPort: number, localHost: string = "127.0.0.1"): Promise<IForwardHandle> {
+        const connection = this.ensureConnected();
+        validate(_.isNumber(localPort), "localPort must be a number");
+        validate(_.isString(localHost) && localHost, "localHost must be a string");
+
+        return this.trackForward(await forwarding.forwardDynamic(connection, localPort, localHost));
+    }
+
+    public async tail(remotePath: string, givenOptions: Partial<ITailOptions> = {}): Promise<RemoteTail> {
+        this.ensureConnected();
+        validate(_.isString(remotePath) && remotePath, "remotePath must be a string");
+        validate(_.isObject(givenOptions) && givenOptions, "options must be an object");
+
+        const options = helpers.normalizeTailOptions(givenOptions);
+        helpers.throwIfCancelled(options.signal);
+        // NOTE: -F keeps following across log rotation, and waits for a file that isn't there yet
+        const parameters = ["tail", "-n", String(options.lines)].concat(options.follow ? ["-F"] : []);
+        const command = shellEscape(parameters.concat(["--", remotePath]));
+        const handle = new RemoteTail(remotePath, command, await this.openExecChannel(command));
+        handle.once("close", helpers.onCancel(options.signal, () => handle.close()));
+
+        return handle;
+    }
+
+    public async watch(remotePath: string, givenOptions: Partial<IWatchOptions> = {}): Promise<RemoteWatcher> {
+        this.ensureConnected();
+        validate(_.isString(remotePath) && remotePath, "remotePath must be a string");
+        validate(_.isObject(givenOptions) && givenOptions, "options must be an object");
+
+        const options = helpers.normalizeWatchOptions(givenOptions);
+        helpers.throwIfCancelled(options.signal);
+        // Every poll borrows a session, a watcher keeps working across reconnects that way
+        const watcher = new RemoteWatcher(remotePath, options, async (callback) => {
+            const sftp = await this.acquireSftp();
+            try {
+                return await callback(new RemoteFS(sftp));
+            } finally {
+                this.releaseSftp(sftp);
+            }
+        });
+        this.watchers.add(watcher);
+        watcher.once("close", helpers.onCancel(options.signal, () => watcher.close()));
+        watcher.once("close", () => this.watchers.delete(watcher));
+
+        // Resolving once the first poll is in means nothing that happens afterwards goes unnoticed
+        let onReady: () => void;
+        let onError: (error: Error) => void;
+        try {
+            await new Promise((resolve, reject) => {
+                onReady = resolve;
+                onError = reject;
+                watcher.once("ready", onReady);
+                watcher.once("error", onError);
+            });
+        } catch (error) {
+            await watcher.close();
+            throw error;
+        } finally {
+            watcher.removeListener("ready", onReady);
+            watcher.removeListener("error", onError);
+        }
+
+        return watcher;
+    }
+
     public dispose() {
         if (this.references > 0) {
             this.references--;
         }
 
+        if (this.references === 0) {
+            this.forwards.forEach((handle) => handle.close());
+            this.watchers.forEach((watcher) => watcher.close());
+            this.closeSftpSessions();
+        }
+
         if (this.references === 0 && this.connection) {
             this.connection.end();
             this.connection = null;
             this.stdout.end();
             this.stderr.end();
+            this.log("info", `Connection to ${this.getAddress(this.target)} closed`);
+            this.emit("closed");
         }
     }
 
     public execSudoCommand(command: string) {
         if (this.sudoModeEnabled) {
+            if (this.sudoOptions.strategy === "stdin") {
+                // NOTE: sudo -S reads the password from stdin, this keeps stdout and stderr apart. -k makes
+                // sure it is always consumed so it never leaks into the command's stdin
+                return this.execute(`${this.getSudoCommand("stdin")} -- bash -c ${shellEscape([command])}`, {
+                    stdin: `${this.sudoPassword}\n`,
+                    useSudo: true
+                }, command);
+            }
+
             const encodedCommand = new Buffer(command).toString("base64");
 
-            return this.execCommand(`echo '${encodedCommand}' | base64 -d | sudo -i -u jworg_qa bash`, {
+            return this.execute(`echo '${encodedCommand}' | base64 -d | ${this.getSudoCommand("pty")} bash`, {
                 options: {
                     pty: true
                 },
                 useSudo: true
-            });
+            }, command);
         } else {
             return this.execCommand(command);
         }
@@ -389,14 +979,16 @@ export class SSH {
             pty: true
         };
 
+        const connection = this.ensureConnected();
+
         return new Promise((resolve, reject) => {
-            this.connection.exec(` stty -echo; bash`, options, (err, originalChannel) => {
+            connection.exec(` stty -echo; bash`, options, (err, originalChannel) => {
                 if (err) {
                     reject(err);
                     return;
                 }
 
-                const channel = this.wrapChannel(originalChannel);
+                const channel = this.wrapChannel(originalChannel, helpers.generatePromptToken());
 
                 resolve(channel);
             });
@@ -408,18 +1000,28 @@ export class SSH {
             const options: ssh2.ExecOptions = {
                 pty: true
             };
+            const sudoCommand = this.getSudoCommand("pty") + (this.sudoOptions.login ? "" : " -s");
+            const connection = this.ensureConnected();
 
             return new Promise((resolve, reject) => {
-                this.connection.exec(` stty -echo; sudo -i -u jworg_qa`, options, (err, originalChannel) => {
+                connection.exec(` stty -echo; ${sudoCommand}`, options, (err, originalChannel) => {
                     if (err) {
                         reject(err);
                         return;
                     }
 
-                    const channel = this.wrapChannel(originalChannel);
+                    const channel = this.wrapChannel(originalChannel, helpers.generatePromptToken());
+                    let passwordAttempts = 0;
 
-                    channel.once("password", (callback) => {
-                        channel.write(`${this.sudoPassword}\n`);
+                    channel.on("password", (callback) => {
+                        if (passwordAttempts++) {
+                            // Being asked twice means the first one was wrong, whoever owns the channel rejects
+                            // once it is closed
+                            channel.passwordRejected = true;
+                            channel.close();
+                        } else {
+                            channel.write(`${this.sudoPassword}\n`);
+                        }
                     });
 
                     resolve(channel);
@@ -430,85 +1032,1120 @@ export class SSH {
         }
     }
 
-    public async runCommandsInShell(commands: Array<string | ICommand>, sudo = false) {
-        let output: { stdout: string[], stderr: string[] };
-        let channel: IClientChannelShell;
-        let recording = false;
-
-        output = { stdout: [], stderr: [] };
-        channel = sudo ?
+    public async runCommandsInShell(commands: Array<string | ICommand>,
+                                    sudo = false,
+                                    givenOptions: Partial<IRunCommandsOptions> = {}): Promise<IShellCommandResult[]> {
+
+        validate(Array.isArray(commands), "commands must be an array");
+        validate(_.isObject(givenOptions) && givenOptions, "options must be an object");
+
+        const options = helpers.normalizeRunCommandsOptions(givenOptions);
+        helpers.throwIfCancelled(options.signal);
+        const queue: ICommand[] = commands.map((command, i) => {
+            const normalized = _.isString(command) ? { cmd: command } : command;
+            validate(normalized && _.isString(normalized.cmd), `commands[${i}].cmd must be a string`);
+            validate(_.isUndefined(normalized.timeout) || (_.isNumber(normalized.timeout) && normalized.timeout > 0),
+                `commands[${i}].timeout must be a positive number`);
+            return normalized;
+        });
+        const results: IShellCommandResult[] = [];
+        const channel = sudo ?
             await this.sudoShell() :
             await this.shell();
 
-        return new Promise<string>((resolve, reject) => {
-            channel.on("prompt", () => {
-                let cmd: (ICommand | string) = commands.shift();
-                recording = false;
+        return new Promise<IShellCommandResult[]>((resolve, reject) => {
+            let current: {
+                command: ICommand,
+                startedAt: number,
+                stderr: string[],
+                stdout: string[],
+                timedOut: boolean,
+                timer: NodeJS.Timer
+            } = null;
+            let failure: ShellCommandsError = null;
+            let cancelled = false;
+
+            const stopCancel = helpers.onCancel(options.signal, () => {
+                cancelled = true;
+                // Interrupt whatever is running before the shell goes away with it
+                channel.write("\x03");
+                channel.close();
+            });
 
-                if (_.isString(cmd)) {
-                    cmd = { cmd, output: false };
+            const finishCommand = (code: number) => {
+                if (!current) {
+                    return;
                 }
 
-                if (cmd) {
-                    if (cmd.output) {
-                        recording = true;
-                    }
+                const { command, startedAt, timedOut, timer } = current;
+                const stderr = current.stderr.join("").replace(/\r\n/g, "\n");
+                let stdout = current.stdout.join("").replace(/\r\n/g, "\n");
+                // The shell echoes what we type, that isn't part of the command's output
+                if (stdout.startsWith(`${command.cmd}\n`)) {
+                    stdout = stdout.slice(command.cmd.length + 1);
+                }
+                clearTimeout(timer);
+                current = null;
+
+                const result: IShellCommandResult = {
+                    code,
+                    command: command.cmd,
+                    duration: Date.now() - startedAt,
+                    stderr: stderr.trim(),
+                    stdout: stdout.trim(),
+                    timedOut
+                };
+                results.push(result);
+                this.recordCommand(command.cmd, startedAt, {
+                    code,
+                    error: timedOut ? "ETIMEDOUT" : code !== 0 ? "ECOMMAND" : null,
+                    sudo
+                });
 
-                    // tslint:disable-next-line:no-console
-                    console.log("Command: " + cmd.cmd);
-                    channel.write(`${cmd.cmd}\n`);
-                } else {
+                if ((code !== 0 || timedOut) && options.errorPolicy === "stopOnError") {
+                    failure = timedOut ?
+                        new ShellCommandsError(
+                            `Command "${command.cmd}" timed out after ${command.timeout || options.timeout}ms`,
+                            command.cmd, result, results, "ETIMEDOUT") :
+                        new ShellCommandsError(`Command "${command.cmd}" failed with exit code ${code}`, command.cmd,
+                            result, results);
+                }
+            };
+
+            channel.on("prompt", (code) => {
+                finishCommand(code);
+
+                const command = failure ? null : queue.shift();
+                if (!command) {
                     channel.close();
+                    return;
                 }
+
+                const timeout = command.timeout || options.timeout;
+                const entry = {
+                    command,
+                    startedAt: Date.now(),
+                    stderr: [],
+                    stdout: [],
+                    timedOut: false,
+                    timer: null
+                };
+                if (timeout) {
+                    entry.timer = setTimeout(() => {
+                        entry.timedOut = true;
+                        // Interrupt the foreground job, the shell then gives us a prompt again
+                        channel.write("\x03");
+                    }, timeout);
+                }
+                current = entry;
+                this.log("debug", `Running command: ${command.cmd}`, { cwd: null, sudo });
+                channel.write(`${command.cmd}\n`);
             });
 
-            channel.stdout.on("data", saveToStdOut);
-            channel.stderr.on("data", saveToStdError);
+            channel.on("error", reject);
+
+            channel.stdout.on("data", (chunk) => {
+                if (current) {
+                    current.stdout.push(chunk.toString());
+                }
+            });
+            channel.stderr.on("data", (chunk) => {
+                if (current) {
+                    current.stderr.push(chunk.toString());
+                }
+            });
 
-            channel.on("close", (code, signal) => {
-                if (output.stderr.length) {
-                    reject(output.stderr.join("").trim());
+            channel.on("close", (code) => {
+                stopCancel();
+                // The shell went away in the middle of a command, ie. it ran `exit`
+                finishCommand(_.isNumber(code) ? code : null);
+
+                if (cancelled) {
+                    reject(new CancelledError([], results));
+                } else if (channel.passwordRejected) {
+                    reject(new AuthenticationError("sudo rejected the given password"));
+                } else if (failure) {
+                    reject(failure);
                 } else {
-                    resolve(output.stdout.join("").trim());
+                    resolve(results);
                 }
             });
 
             channel.resume();
         });
+    }
 
-        function saveToStdOut(chunk) {
-            if (recording) {
-                output.stdout.push(chunk);
-            }
+    private trackForward(handle: IForwardHandle): IForwardHandle {
+        const close = handle.close;
+
+        this.forwards.add(handle);
+        handle.close = () => {
+            this.forwards.delete(handle);
+            return close();
+        };
+
+        return handle;
+    }
+
+    private async acquireSftp(signal: ICancelSignal = null): Promise<ssh2.SFTPWrapper> {
+        // NOTE: Cancelling ends the session, a shared one would take everyone else's requests down with it
+        if (signal) {
+            return this.requestSFTP();
         }
 
-        function saveToStdError(chunk) {
-            if (recording) {
-                output.stderr.push(chunk);
-            }
+        const connection = this.ensureConnected();
+        if (!this.sftpSessions || this.sftpSessions.connection !== connection) {
+            this.closeSftpSessions();
+            this.sftpSessions = new SftpSessions(connection, this.options.maxSftpSessions);
         }
+        return this.sftpSessions.acquire();
     }
 
-    private wrapChannel(originalChannel: ssh2.ClientChannel) {
-        const channel: IClientChannelShell = originalChannel as IClientChannelShell;
+    private ensureConnected(): ssh2.Client {
+        if (!this.connection) {
+            throw new NotConnectedError();
+        }
+        return this.connection;
+    }
 
-        const transform = new stream.Transform({
-            transform(chunk: Buffer, encoding: string, callback: () => void) {
-                try {
-                    const lines = chunk.toString().split(/(\r\n)/g);
-
-                    _.each(lines, (chunkString) => {
-                        if (/^\[sudo\] password for.*$/.test(chunkString)) {
-                            channel.emit("password");
-                            channel.ignoreChunk = "\r\n";
-                        } else if (/\$ $/.test(chunkString)) {
-                            channel.emit("prompt");
-                        } else if (channel.ignoreChunk === chunkString) {
-                            channel.ignoreChunk = null;
-                        } else {
-                            transform.push(chunkString);
-                        }
-                    });
+    private releaseSftp(sftp: ssh2.SFTPWrapper) {
+        if (!this.sftpSessions || !this.sftpSessions.release(sftp)) {
+            sftp.end();
+        }
+    }
+
+    private closeSftpSessions() {
+        if (this.sftpSessions) {
+            this.sftpSessions.dispose();
+            this.sftpSessions = null;
+        }
+    }
+
+    private async establish(config: IConnectConfig, retries: number): Promise<this> {
+        const address = this.getAddress(config);
+        for (let attempt = 1; ; attempt++) {
+            this.log("debug", `Connecting to ${address}`, { attempt });
+            this.emit("connecting", attempt);
+
+            try {
+                const connection = await this.openConnection(config);
+
+                if (this.references === 0) {
+                    // Disposed while we were still connecting
+                    connection.end();
+                    this.connectionPromise = null;
+                    return this;
+                }
+
+                const onEnd = () => {
+                    if (this.connection !== connection) {
+                        return;
+                    }
+                    this.connection = null;
+                    this.closeSftpSessions();
+
+                    if (this.options.reconnect && this.references > 0) {
+                        this.log("warn", `Lost the connection to ${address}, reconnecting`);
+                        // Attempt 0 is the drop itself, the first attempt to reconnect follows right away
+                        this.emit("reconnecting", 0, 0, null);
+                        this.connectionPromise = this.establish(config, this.options.reconnectRetries);
+                        this.connectionPromise.catch((error) => {
+                            this.emitError(error);
+                            this.emit("closed");
+                        });
+                    } else {
+                        this.log("info", `Connection to ${address} closed`);
+                        this.emit("closed");
+                    }
+                };
+                // NOTE: A socket that errors out only emits close
+                connection.on("end", onEnd);
+                connection.on("close", onEnd);
+
+                this.connection = connection;
+                this.connectionPromise = null;
+                this.target = config;
+                this.log("info", `Connected to ${address}`, { username: config.username });
+                this.emit("ready");
+                return this;
+            } catch (error) {
+                if (attempt > retries || this.references === 0) {
+                    this.connectionPromise = null;
+                    this.log("error", `Unable to connect to ${address}: ${error.message}`,
+                        { attempt, code: error.code });
+                    throw error;
+                }
+
+                const delay = Math.min(this.options.retryDelay * Math.pow(2, attempt - 1), this.options.maxRetryDelay);
+                this.log("warn", `Unable to connect to ${address}: ${error.message}, retrying in ${delay}ms`,
+                    { attempt, code: error.code });
+                this.emit("reconnecting", attempt, delay, error);
+                await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    private getAddress(config: IConnectConfig): string {
+        return config.host ? `${config.host}:${config.port || 22}` : helpers.getTargetHost(config);
+    }
+
+    private async openConnection(config: IConnectConfig): Promise<ssh2.Client> {
+        const hops = helpers.getJumpHosts(config);
+        const targets = hops.concat(_.omit(config, "jump") as IConnectConfig);
+        const jumpConnections: ssh2.Client[] = [];
+
+        // Every hop tunnels to the next one, the last tunnel becomes the socket of the actual connection
+        try {
+            for (let i = 0, length = hops.length; i < length; i++) {
+                jumpConnections.push(await this.authenticate(targets[i], jumpConnections[i - 1]));
+            }
+
+            const connection = await this.authenticate(targets[hops.length], jumpConnections[hops.length - 1]);
+
+            // NOTE: A tunnelled connection may only end, its channel is not closed before the hop goes away
+            const closeHops = _.once(() => jumpConnections.reverse().forEach((hop) => hop.end()));
+            connection.once("end", closeHops);
+            connection.once("close", closeHops);
+
+            return connection;
+        } catch (error) {
+            jumpConnections.reverse().forEach((hop) => hop.end());
+            throw error;
+        }
+    }
+
+    private async openWriteStream(remoteFile: string,
+                                  sftp: ssh2.SFTPWrapper,
+                                  opts: IPutStreamOptions,
+                                  retry: boolean): Promise<stream.Writable> {
+        const options = { encoding: opts.encoding, flags: opts.append ? "a" : "w", mode: opts.mode };
+
+        try {
+            return await helpers.openWriteStreamSftp(remoteFile, sftp, options);
+        } catch (error) {
+            // Like putFile, a missing parent directory is created once before giving up
+            if (retry && (error.message === "No such file" || error.code === "ENOENT")) {
+                await this.mkdir(path.dirname(remoteFile), "sftp", sftp);
+                return this.openWriteStream(remoteFile, sftp, opts, false);
+            }
+            throw error;
+        }
+    }
+
+    private async authenticate(config: IConnectConfig, jumpConnection: ssh2.Client = null): Promise<ssh2.Client> {
+        const identities = (config.privateKeys || [null]) as IPrivateKey[];
+        const target = _.omit(config, "privateKeys") as IConnectConfig;
+        let lastError: Error = null;
+
+        // ssh2 only knows about a single key, every key gets a connection of its own until one is accepted
+        for (const identity of identities) {
+            const attempt: IConnectConfig = { ...target, ...identity };
+            if (jumpConnection) {
+                attempt.sock = await new Promise<NodeJS.ReadableStream>((resolve, reject) => {
+                    jumpConnection.forwardOut("127.0.0.1", 0, config.host, config.port || 22,
+                        helpers.generateCallback(resolve, reject));
+                });
+            }
+
+            try {
+                return await this.openClient(attempt);
+            } catch (error) {
+                if (error.level !== "client-authentication") {
+                    throw error;
+                }
+                lastError = new AuthenticationError(error.message, config.host, config.username);
+            }
+        }
+
+        throw lastError;
+    }
+
+    private async openClient(config: IConnectConfig): Promise<ssh2.Client> {
+        const hostKeyPolicy = config.hostKeyPolicy || "off";
+        const knownHostsPath = config.knownHosts || knownHosts.DEFAULT_KNOWN_HOSTS_PATH;
+        const knownHostEntries = hostKeyPolicy === "off" ? null : await knownHosts.readKnownHosts(knownHostsPath);
+        const clientConfig = _.omit(config, ["hostKeyPolicy", "knownHosts", "onKeyboardInteractive", "sshConfig"]) as
+            ssh2.ConnectConfig;
+
+        return new Promise<ssh2.Client>((resolve, reject) => {
+            const connection = new ssh2.Client();
+            let hostKeyError: Error = null;
+
+            const onError = (error: Error) => reject(hostKeyError || error);
+            connection.on("error", onError);
+
+            connection.on("ready", () => {
+                connection.removeListener("error", onError);
+                connection.on("error", (error: Error) => this.emitError(error));
+                resolve(connection);
+            });
+
+            if (config.onKeyboardInteractive) {
+                connection.on("keyboard-interactive", (name, instructions, lang, prompts, finish) => {
+                    Promise.resolve()
+                        .then(() => config.onKeyboardInteractive(name, instructions, prompts))
+                        .then(finish, (error) => {
+                            reject(error);
+                            connection.end();
+                        });
+                });
+            }
+
+            connection.connect(clientConfig);
+
+            if (knownHostEntries) {
+                // NOTE: ssh2's hostVerifier only gets to see a hash, known_hosts needs the key itself
+                const policy = hostKeyPolicy as "strict" | "accept-new";
+                try {
+                    knownHosts.onHostKey(connection, config.host, (key, verify) => {
+                        knownHosts.verifyHostKey(knownHostEntries, config.host, config.port || 22, key, policy,
+                            knownHostsPath).catch((error) => error).then((error) => {
+                            hostKeyError = error;
+                            verify(!hostKeyError);
+                        });
+                    });
+                } catch (error) {
+                    connection.end();
+                    reject(error);
+                }
+            }
+        });
+    }
+
+    private async waitForReconnect(previous: ssh2.Client): Promise<boolean> {
+        if (!this.options.reconnect) {
+            return false;
+        }
+        if (this.connection === previous) {
+            // The failure may reach us before the connection reports that it went away
+            await new Promise((resolve) => setImmediate(resolve));
+            if (this.connection === previous) {
+                return false;
+            }
+        }
+        if (this.connection) {
+            return true;
+        }
+
+        return new Promise<boolean>((resolve) => {
+            const onReady = () => {
+                this.removeListener("closed", onClosed);
+                resolve(true);
+            };
+            const onClosed = () => {
+                this.removeListener("ready", onReady);
+                resolve(false);
+            };
+            this.once("ready", onReady);
+            this.once("closed", onClosed);
+        });
+    }
+
+    private emitError(error: Error) {
+        this.log("error", error.message, { code: (error as any).code });
+        // Unhandled error events would throw, only report to those who are listening
+        if (this.listenerCount("error")) {
+            this.emit("error", error);
+        }
+    }
+
+    private log(level: "debug" | "info" | "warn" | "error", message: string, meta: object = {}) {
+        if (this.options.logger) {
+            this.options.logger[level](helpers.redact(message, this.secrets), helpers.redact(meta, this.secrets));
+        }
+    }
+
+    private recordCommand(command: string, startedAt: number, details: Partial<IAuditEntry>) {
+        const entry: IAuditEntry = {
+            code: null,
+            command,
+            cwd: null,
+            duration: Date.now() - startedAt,
+            error: null,
+            host: helpers.getTargetHost(this.target),
+            signal: null,
+            sudo: false,
+            username: this.target.username,
+            ...details
+        };
+        this.log(entry.error ? "warn" : "debug", `Command finished in ${entry.duration}ms: ${entry.command}`, entry);
+        if (!this.options.audit) {
+            return;
+        }
+        try {
+            this.options.audit(helpers.redact(entry, this.secrets));
+        } catch (error) {
+            // The command already ran, a broken hook is no reason to report it as failed
+            this.log("error", `Audit hook failed: ${error.message}`, { command: entry.command });
+        }
+    }
+
+    private updateSecrets() {
+        // Logging is frequent, the secrets only change with the connection or the sudo password
+        this.secrets = helpers.getSecrets(this.connectConfig || {}, [this.sudoPassword]);
+    }
+
+    private scanLocalDirectory(localDirectory: string,
+                               config: IPutDirectoryOptions,
+                               opts: ITransferOptions): Promise<string[]> {
+        if (opts.symlinks === "follow") {
+            return scanDirectory(localDirectory, config.recursive, config.validate);
+        }
+        return helpers.scanDirectoryLocal(localDirectory, config.recursive, config.validate);
+    }
+
+    private async hasRemoteTar(): Promise<boolean> {
+        return (await this.execCommand("command -v tar")).code === 0;
+    }
+
+    private async execute(givenCommand: string,
+                          options: IExecCommandOptions,
+                          auditedCommand: string = givenCommand): Promise<IExecCommandResult<string | Buffer>> {
+        let command = givenCommand;
+        const connection = this.ensureConnected();
+        validate(_.isObject(options) && options, "options must be an Object");
+        validate(!options.cwd || _.isString(options.cwd), "options.cwd must be a string");
+        validate(!options.stdin || _.isString(options.stdin), "options.stdin must be a string");
+        validate(!options.options || _.isObject(options.options), "options.options must be an object");
+        validate(_.isUndefined(options.useSudo) || _.isBoolean(options.useSudo), "options.useSudo must be a boolean");
+        validate(_.isUndefined(options.timeout) || (_.isNumber(options.timeout) && options.timeout > 0),
+            "options.timeout must be a positive number");
+        validate(!options.onStdout || _.isFunction(options.onStdout), "options.onStdout must be a function");
+        validate(!options.onStderr || _.isFunction(options.onStderr), "options.onStderr must be a function");
+        validate(!options.onStart || _.isFunction(options.onStart), "options.onStart must be a function");
+        validate(!options.signal || helpers.isCancelSignal(options.signal), "options.signal must be an AbortSignal");
+        validate(!options.failOn || ["stderr", "exitCode", "never"].indexOf(options.failOn) !== -1,
+            'options.failOn must be among "stderr", "exitCode" and "never"');
+        validate(!options.env || helpers.isEnvironment(options.env),
+            "options.env must be an object of strings keyed by variable names");
+        validate(!options.envStrategy || ["setenv", "export"].indexOf(options.envStrategy) !== -1,
+            'options.envStrategy must be either "setenv" or "export"');
+        validate(_.isUndefined(options.raw) || _.isBoolean(options.raw), "options.raw must be a boolean");
+        validate(_.isUndefined(options.binary) || _.isBoolean(options.binary), "options.binary must be a boolean");
+        helpers.throwIfCancelled(options.signal);
+
+        const execOptions: ssh2.ExecOptions = { ...options.options };
+        if (options.cwd) {
+            command = `${helpers.getCwdCommand(options.cwd)}; ${command}`;
+        }
+        if (options.env && options.envStrategy === "setenv") {
+            execOptions.env = { ...execOptions.env, ...options.env };
+        } else if (!_.isEmpty(options.env)) {
+            // NOTE: Servers only accept the variables they whitelist through setenv and drop the rest without a word
+            command = `${helpers.getEnvCommand(options.env)}; ${command}`;
+        }
+        const failOn = options.failOn || "never";
+        const output = { stdout: [], stderr: [] };
+        const shouldCheckPassword = options && options.useSudo && this.sudoModeEnabled;
+        const sudoStrategy = this.sudoOptions.strategy;
+        const startedAt = Date.now();
+        let exit: { code: number, signal: string } = { code: null, signal: null };
+
+        this.log("debug", `Running command: ${auditedCommand}`,
+            { cwd: options.cwd || null, sudo: !!shouldCheckPassword });
+        const running = new Promise<IExecCommandResult<string | Buffer>>((resolve, reject) => {
+            const handleCallback = (originalChannel: ssh2.ClientChannel) => {
+                const channel = this.wrapChannel(originalChannel);
+
+                let timer: NodeJS.Timer = null;
+                let timedOut = false;
+                let cancelled = false;
+                let passwordRejected = false;
+
+                if (shouldCheckPassword && sudoStrategy === "pty") {
+                    let passwordAttempts = 0;
+                    channel.on("password", () => {
+                        if (passwordAttempts++) {
+                            // Being asked twice means the first one was wrong, don't wait on the second prompt
+                            passwordRejected = true;
+                            channel.close();
+                        } else {
+                            channel.write(`${this.sudoPassword}\n`);
+                        }
+                    });
+                }
+
+                // NOTE: The wrapped stdout is decoded to look for sudo prompts, binary output has to skip that
+                (options.binary ? originalChannel : channel.stdout).on("data", (chunk: Buffer) => {
+                    output.stdout.push(chunk);
+                    if (options.onStdout) {
+                        options.onStdout(chunk);
+                    }
+                });
+
+                channel.stderr.on("data", (chunk) => {
+                    output.stderr.push(chunk);
+                    if (options.onStderr) {
+                        options.onStderr(chunk as Buffer);
+                    }
+                });
+
+                if (options.stdin) {
+                    channel.write(options.stdin);
+                    channel.end();
+                }
+
+                if (options.timeout) {
+                    timer = setTimeout(() => {
+                        timedOut = true;
+                        // NOTE: Not every server honors signal requests, closing the channel makes sure we return
+                        channel.signal("TERM");
+                        channel.close();
+                    }, options.timeout);
+                }
+
+                if (options.onStart) {
+                    options.onStart({
+                        kill() {
+                            channel.signal("KILL");
+                            channel.close();
+                        },
+                        signal(signalName: string) {
+                            channel.signal(signalName);
+                        }
+                    });
+                }
+
+                const stopCancel = helpers.onCancel(options.signal, () => {
+                    cancelled = true;
+                    channel.signal("TERM");
+                    channel.close();
+                });
+
+                channel.on("close", (code, signal) => {
+                    exit = { code, signal: signal || null };
+                    clearTimeout(timer);
+                    stopCancel();
+                    if (cancelled) {
+                        reject(new CancelledError());
+                        return;
+                    }
+                    if (shouldCheckPassword && sudoStrategy === "stdin" &&
+                        helpers.SUDO_REJECTED_PATTERN.test(output.stderr.join(""))) {
+                        passwordRejected = true;
+                    }
+                    if (passwordRejected) {
+                        reject(new AuthenticationError("sudo rejected the given password"));
+                        return;
+                    }
+                    const result = {
+                        code,
+                        signal,
+                        stderr: this.joinOutput(output.stderr, options),
+                        stdout: this.joinOutput(output.stdout, options)
+                    };
+                    if (timedOut) {
+                        reject(new CommandFailedError(`Command timed out after ${options.timeout}ms`, givenCommand,
+                            result, "ETIMEDOUT"));
+                        return;
+                    }
+                    if (options.cwd && code === 1 &&
+                        [result.stdout, result.stderr].some((o) => o.toString().trim() === helpers.CWD_FAILED_TOKEN)) {
+                        reject(new CommandFailedError(`Unable to change directory to ${options.cwd}`, givenCommand,
+                            result, "ECWD"));
+                        return;
+                    }
+                    if (failOn === "exitCode" && code !== 0) {
+                        reject(new CommandFailedError(signal ?
+                            `Command was terminated by ${signal}` :
+                            `Command failed with exit code ${code}`, givenCommand, result));
+                        return;
+                    }
+                    if (failOn === "stderr" && result.stderr.length) {
+                        reject(new CommandFailedError(result.stderr.toString().trim(), givenCommand, result));
+                        return;
+                    }
+                    resolve(result);
+                });
+            };
+
+            connection.exec(command, execOptions, helpers.generateCallback(handleCallback, reject));
+        });
+        const record = (error: string) => this.recordCommand(auditedCommand, startedAt, {
+            ...exit,
+            cwd: options.cwd || null,
+            error,
+            sudo: !!shouldCheckPassword
+        });
+
+        try {
+            const result = await running;
+            record(null);
+            return result;
+        } catch (error) {
+            record(error.code || "ECOMMAND");
+            throw error;
+        }
+    }
+
+    private openExecChannel(command: string): Promise<ssh2.ClientChannel> {
+        const connection = this.ensureConnected();
+        const startedAt = Date.now();
+
+        this.log("debug", `Running command: ${command}`, { cwd: null, sudo: false });
+        return new Promise<ssh2.ClientChannel>((resolve, reject) => {
+            connection.exec(command, helpers.generateCallback((channel: ssh2.ClientChannel) => {
+                channel.once("close", (code: number, signal: string) => this.recordCommand(command, startedAt, {
+                    code,
+                    error: _.isNumber(code) && code !== 0 ? "ECOMMAND" : null,
+                    signal: signal || null
+                }));
+                resolve(channel);
+            }, reject));
+        });
+    }
+
+    private async putDirectoryTar(localDirectory: string,
+                                  remoteDirectory: string,
+                                  files: ILocalRemotePair[],
+                                  config: IPutDirectoryOptions,
+                                  opts: ITransferOptions): Promise<boolean> {
+        helpers.throwIfCancelled(opts.signal);
+
+        const tracker = await this.trackLocalFiles(files, opts);
+        const transferred: ILocalRemotePair[] = [];
+        const archived = new Map<string, ILocalRemotePair>();
+        const succeed = (file: ILocalRemotePair) => {
+            transferred.push(file);
+            config.tick(file.local, file.remote, null);
+            if (tracker) {
+                tracker.complete(file);
+            }
+        };
+
+        const directory = shellEscape([remoteDirectory]);
+        // NOTE: -m leaves modification times to the remote end, the way SFTP uploads do unless they're preserved
+        const flags = ["-x", "-z", "-v", "-o", "-f", "-"];
+        if (opts.preserveMode || typeof opts.mode === "number") {
+            flags.push("-p");
+        }
+        if (!opts.preserveTimes) {
+            flags.push("-m");
+        }
+        const channel = await this.openExecChannel(`mkdir -p ${directory} && tar ${flags.join(" ")} -C ${directory}`);
+
+        let cancelled = false;
+        const stopCancel = helpers.onCancel(opts.signal, () => {
+            cancelled = true;
+            channel.signal("TERM");
+            channel.close();
+        });
+        const stderr: string[] = [];
+        // Verbose tar lists every entry as it starts extracting it, GNU tar on stdout and BSD tar on stderr as
+        // "x name". An entry is done once the next one is listed, unless there was an error naming it.
+        const listed = new Map<string, ILocalRemotePair>();
+        const failures = new Map<ILocalRemotePair, string>();
+        const confirmListed = () => {
+            listed.forEach((file) => {
+                if (!failures.has(file)) {
+                    succeed(file);
+                }
+            });
+            listed.clear();
+        };
+        const onLine = (line: string, isStderr: boolean) => {
+            const name = archived.has(line) ? line : line.replace(/^x /, "");
+            const file = archived.get(name);
+            if (file) {
+                confirmListed();
+                archived.delete(name);
+                listed.set(name, file);
+            } else if (isStderr && line.trim()) {
+                stderr.push(line);
+                // The listing is buffered where errors aren't, so an error can come before its entry is listed
+                const onError = (erroredFile: ILocalRemotePair, erroredName: string) => {
+                    if (new RegExp(`(^|\\s|\\./)${_.escapeRegExp(erroredName)}: `).test(line)) {
+                        failures.set(erroredFile, line);
+                    }
+                };
+                listed.forEach(onError);
+                archived.forEach(onError);
+            }
+        };
+        const readLines = (readable: NodeJS.ReadableStream, isStderr: boolean) => {
+            let rest = "";
+            readable.on("data", (chunk) => {
+                const lines = (rest + chunk).split("\n");
+                rest = lines.pop();
+                lines.forEach((line) => onLine(line, isStderr));
+            });
+            return () => onLine(rest, isStderr);
+        };
+        const flushStdout = readLines(channel.stdout, false);
+        const flushStderr = readLines(channel.stderr, true);
+        const closed = new Promise<number>((resolve) => channel.on("close", (code: number) => resolve(code)));
+        const closedEarly = closed.then(() => {
+            throw new Error("tar exited before the whole archive was sent");
+        });
+        closedEarly.catch(_.noop);
+
+        const gzip = zlib.createGzip();
+        gzip.pipe(channel);
+        const pending = files.slice();
+        let error: Error = null;
+        try {
+            while (pending.length) {
+                helpers.throwIfCancelled(opts.signal, transferred);
+                const file = pending[0];
+                const name = path.relative(localDirectory, file.local).split(path.sep).join("/");
+                const stats = await (opts.symlinks === "follow" ? helpers.stat : helpers.lstat)(file.local);
+                const entry: tar.ITarEntry = {
+                    mode: typeof opts.mode === "number" ? opts.mode : stats.mode,
+                    mtime: stats.mtime,
+                    name,
+                    size: stats.size,
+                    type: "file"
+                };
+                let contents: fs.ReadStream = null;
+                if (stats.isSymbolicLink()) {
+                    if (opts.symlinks === "skip") {
+                        pending.shift();
+                        succeed(file);
+                        continue;
+                    }
+                    entry.type = "symlink";
+                    entry.linkname = await helpers.readlink(file.local);
+                } else {
+                    contents = fs.createReadStream(file.local);
+                }
+
+                archived.set(name, file);
+                pending.shift();
+                const step = tracker ? tracker.getTransferOptions(file, {}).step : _.noop;
+                try {
+                    await Promise.race([
+                        tar.writeTarEntry(gzip, entry, contents, (written, chunk) => step(written, chunk, entry.size)),
+                        closedEarly
+                    ]);
+                } catch (_) {
+                    if (contents) {
+                        contents.close();
+                    }
+                    throw _;
+                }
+            }
+            await Promise.race([tar.endTar(gzip), closedEarly]);
+        } catch (_) {
+            error = _;
+            gzip.unpipe(channel);
+            channel.close();
+        }
+
+        const code = await closed;
+        stopCancel();
+        if (cancelled) {
+            throw new CancelledError(transferred);
+        }
+        flushStdout();
+        flushStderr();
+
+        // Names tar had to quote can't be matched up with their ticks, a clean exit means they made it all the same
+        if (code === 0 && !error) {
+            confirmListed();
+            archived.forEach(succeed);
+            return true;
+        }
+        // tar carries on past entries it can't extract, the ones listed made it unless sending the archive failed
+        if (!error) {
+            confirmListed();
+        }
+        const failure = stderr.join("\n").trim() || (error && error.message) || `tar exited with code ${code}`;
+        const unfinished = Array.from(listed.values()).filter((file) => !failures.has(file))
+            .concat(Array.from(archived.values()), pending);
+        Array.from(failures.keys()).concat(unfinished).forEach((file) => {
+            const message = failures.get(file) || failure;
+            config.tick(file.local, file.remote, new TransferError(message, file.local, file.remote));
+            if (tracker) {
+                tracker.complete(file, false);
+            }
+        });
+        return false;
+    }
+
+    private async getDirectoryTar(remoteDirectory: string,
+                                  files: ILocalRemotePair[],
+                                  config: IPutDirectoryOptions,
+                                  opts: ITransferOptions,
+                                  transferred: ILocalRemotePair[]): Promise<boolean> {
+        const tracker = opts.onProgress ? new ProgressTracker(opts.onProgress, files) : null;
+        const requested = new Map<string, ILocalRemotePair>();
+        files.forEach((file) => requested.set(path.posix.relative(remoteDirectory, file.remote), file));
+        const directoriesCreated = new Map<string, Promise<void>>();
+        const extracted = new Map<string, string>();
+        const failed: ILocalRemotePair[] = [];
+
+        const extract = async (entry: tar.ITarEntry, contents: stream.Readable) => {
+            const name = entry.name.replace(/^\.\//, "");
+            const file = requested.get(name);
+            if (!file || ["file", "symlink", "hardlink"].indexOf(entry.type) === -1) {
+                contents.resume();
+                return;
+            }
+            requested.delete(name);
+
+            try {
+                const localFileDirectory = path.dirname(file.local);
+                if (!directoriesCreated.has(localFileDirectory)) {
+                    directoriesCreated.set(localFileDirectory, helpers.mkdirLocal(localFileDirectory));
+                }
+                await directoriesCreated.get(localFileDirectory);
+
+                if (entry.type === "symlink") {
+                    contents.resume();
+                    if (opts.symlinks === "copy") {
+                        await helpers.symlinkLocal(entry.linkname, file.local);
+                    }
+                } else {
+                    let source: NodeJS.ReadableStream = contents;
+                    if (entry.type === "hardlink") {
+                        // Files that are linked together come once, later names are copies of the first one
+                        const linked = extracted.get(entry.linkname.replace(/^\.\//, ""));
+                        if (!linked) {
+                            throw new Error(`${name} is a hard link to ${entry.linkname}, which wasn't transferred`);
+                        }
+                        contents.resume();
+                        source = fs.createReadStream(linked);
+                    }
+                    const step = tracker ? tracker.getTransferOptions(file, {}).step : _.noop;
+                    let written = 0;
+                    await new Promise((resolve, reject) => {
+                        const output = fs.createWriteStream(file.local);
+                        source.on("data", (chunk: Buffer) => {
+                            written += chunk.length;
+                            step(written, chunk.length, Math.max(entry.size, written));
+                        });
+                        source.once("error", reject);
+                        output.once("error", reject);
+                        output.once("close", resolve);
+                        source.pipe(output);
+                    });
+                    extracted.set(name, file.local);
+                    const mode = typeof opts.mode === "number" ? opts.mode : opts.preserveMode ? entry.mode : null;
+                    if (mode !== null) {
+                        await helpers.chmod(file.local, helpers.getPermissions({ mode }));
+                    }
+                    if (opts.preserveTimes) {
+                        await helpers.utimes(file.local, new Date(), entry.mtime);
+                    }
+                }
+
+                transferred.push(file);
+                config.tick(file.local, file.remote, null);
+                if (tracker) {
+                    tracker.complete(file);
+                }
+            } catch (error) {
+                contents.resume();
+                failed.push(file);
+                config.tick(file.local, file.remote, helpers.toTransferError(error, file.local, file.remote));
+                if (tracker) {
+                    tracker.complete(file, false);
+                }
+            }
+        };
+
+        helpers.throwIfCancelled(opts.signal, transferred);
+        // NOTE: -h dereferences symlinks, names come in through stdin so there is no limit on how many there are
+        const directory = shellEscape([remoteDirectory]);
+        const channel = await this.openExecChannel(
+            `tar -c -z ${opts.symlinks === "follow" ? "-h " : ""}-f - -C ${directory} -T -`);
+
+        let cancelled = false;
+        const stopCancel = helpers.onCancel(opts.signal, () => {
+            cancelled = true;
+            channel.signal("TERM");
+            channel.close();
+        });
+        const stderr: string[] = [];
+        channel.stderr.on("data", (chunk) => stderr.push(chunk.toString()));
+        const closed = new Promise<number>((resolve) => channel.on("close", (code: number) => resolve(code)));
+
+        let error: Error = null;
+        try {
+            // Leading ./ keeps names that start with a dash from being read as options
+            channel.end(Array.from(requested.keys()).map((name) => `./${name}\n`).join(""));
+            await new Promise((resolve, reject) => {
+                const gunzip = zlib.createGunzip();
+                const parser = new tar.TarParser(extract);
+                gunzip.once("error", reject);
+                parser.once("error", reject);
+                parser.once("finish", resolve);
+                channel.stdout.pipe(gunzip).pipe(parser);
+            });
+        } catch (_) {
+            error = _;
+            channel.close();
+        }
+
+        const code = await closed;
+        stopCancel();
+        if (cancelled) {
+            throw new CancelledError(transferred);
+        }
+
+        const failure = stderr.join("").trim() || (error && error.message) || `tar exited with code ${code}`;
+        requested.forEach((file) => {
+            failed.push(file);
+            config.tick(file.local, file.remote, new TransferError(failure, file.local, file.remote));
+            if (tracker) {
+                tracker.complete(file, false);
+            }
+        });
+        return failed.length === 0;
+    }
+
+    private async trackLocalFiles(files: ILocalRemotePair[], opts: ITransferOptions): Promise<ProgressTracker> {
+        if (!opts.onProgress) {
+            return null;
+        }
+
+        // Stat everything up front so there is a total to show before the first byte goes out
+        const statFile = opts.symlinks !== "follow" ? helpers.lstat : helpers.stat;
+        const sizes = await Promise.all(files.map(async (file) => (await statFile(file.local)).size));
+        return new ProgressTracker(opts.onProgress, files, sizes);
+    }
+
+    private async filterChangedFiles(files: ILocalRemotePair[],
+                                     sftp: ssh2.SFTPWrapper,
+                                     checksum: boolean): Promise<ILocalRemotePair[]> {
+        const changed = new Set<ILocalRemotePair>();
+        const sameSize: ILocalRemotePair[] = [];
+
+        await Promise.all(files.map(async (file) => {
+            let remoteStats;
+            try {
+                remoteStats = await helpers.statSftp(file.remote, sftp);
+            } catch (_) {
+                changed.add(file);
+                return;
+            }
+            const localStats = await helpers.stat(file.local);
+
+            if (remoteStats.size !== localStats.size) {
+                changed.add(file);
+            } else if (checksum) {
+                sameSize.push(file);
+            } else if (remoteStats.mtime !== Math.floor(localStats.mtime.getTime() / 1000)) {
+                changed.add(file);
+            }
+        }));
+
+        if (sameSize.length) {
+            const remoteHashes = await this.hashRemoteFiles(sameSize.map((file) => file.remote));
+            for (const file of sameSize) {
+                if (remoteHashes[file.remote] !== await helpers.hashFile(file.local)) {
+                    changed.add(file);
+                }
+            }
+        }
+
+        return files.filter((file) => changed.has(file));
+    }
+
+    private async hashRemoteFile(remoteFile: string): Promise<string> {
+        // One at a time, a directory worth of uploads would run into the session limit of the server otherwise
+        const hashes = this.checksums.then(() => this.hashRemoteFiles([remoteFile]));
+        this.checksums = hashes.catch(_.noop);
+        return (await hashes)[remoteFile];
+    }
+
+    private async hashRemoteFiles(remoteFiles: string[]): Promise<{ [remoteFile: string]: string }> {
+        const hashes: { [remoteFile: string]: string } = {};
+
+        for (const chunk of _.chunk(remoteFiles, 100)) {
+            const output = await this.execCommand(`sha256sum -- ${shellEscape(chunk)}`);
+            // Without this a missing sha256sum would only show as checksums that never match
+            if (output.code !== 0) {
+                const reason = output.stderr || `sha256sum exited with code ${output.code}`;
+                throw new TransferError(`Checksum verification is unavailable: ${reason}`, null,
+                    chunk.length === 1 ? chunk[0] : null, "ENOTSUP");
+            }
+            for (const line of output.stdout.split("\n")) {
+                const match = /^([0-9a-f]{64}) [ *](.+)$/.exec(line);
+                if (match) {
+                    hashes[match[2]] = match[1];
+                }
+            }
+        }
+
+        return hashes;
+    }
+
+    private getSudoCommand(strategy: "pty" | "stdin"): string {
+        const parameters = strategy === "stdin" ? ["sudo", "-k", "-S", "-p", ""] : ["sudo", "-p", helpers.SUDO_PROMPT];
+
+        if (this.sudoOptions.login) {
+            parameters.push("-i");
+        }
+        if (this.sudoOptions.user) {
+            parameters.push("-u", this.sudoOptions.user);
+        }
+
+        return shellEscape(parameters);
+    }
+
+    private joinOutput(chunks: Buffer[], options: IExecCommandOptions): string | Buffer {
+        if (options.binary) {
+            return Buffer.concat(chunks);
+        }
+        const joined = chunks.join("");
+        return options.raw ? joined : joined.trim();
+    }
+
+    private wrapChannel(originalChannel: ssh2.ClientChannel, promptToken: string = null) {
+        const channel: IClientChannelShell = originalChannel as IClientChannelShell;
+        const promptPatterns = this.sudoOptions.promptPatterns;
+        const promptPattern = promptToken ? new RegExp(`${promptToken}(\\d+)${promptToken}`) : null;
+        let pending = "";
+        let promptRequested = false;
+
+        channel.promptToken = promptToken;
+        channel.promptReady = !promptToken;
+
+        const pushText = (text: string) => {
+            _.each(text.split(/(\r\n)/g), (chunkString) => {
+                if (!chunkString) {
+                    return;
+                }
+                if (promptPatterns.some((pattern) => pattern.test(chunkString))) {
+                    channel.emit("password");
+                    channel.ignoreChunk = "\r\n";
+                } else if (channel.ignoreChunk === chunkString) {
+                    channel.ignoreChunk = null;
+                } else if (channel.promptReady) {
+                    transform.push(chunkString);
+                } else if (!promptRequested) {
+                    // NOTE: The shell is up once it prints anything that isn't sudo asking for a password, anything
+                    // written earlier could be swallowed by sudo. Output before our own prompt is just motd noise
+                    promptRequested = true;
+                    channel.write(helpers.getPromptSetupCommand(promptToken));
+                }
+            });
+        };
+
+        const transform = new stream.Transform({
+            transform(chunk: Buffer, encoding: string, callback: () => void) {
+                try {
+                    let data = pending + chunk.toString();
+                    pending = "";
+
+                    if (promptPattern) {
+                        let match = promptPattern.exec(data);
+                        while (match) {
+                            pushText(data.slice(0, match.index));
+                            data = data.slice(match.index + match[0].length);
+                            channel.promptReady = true;
+                            channel.emit("prompt", parseInt(match[1], 10));
+                            match = promptPattern.exec(data);
+                        }
+
+                        // Hold back a prompt that is split across chunks until the rest of it arrives
+                        const partialIndex = helpers.findPartialPrompt(data, promptToken);
+                        pending = data.slice(partialIndex);
+                        data = data.slice(0, partialIndex);
+                    }
+
+                    pushText(data);
                 } finally {
                     callback();
                 }
@@ -518,6 +2155,8 @@ export class SSH {
         channel.once("error", (err: any) => {
             transform.emit("error", err);
         });
+        // NOTE: Errors are forwarded for those reading stdout, an unhandled one would take the process down
+        transform.on("error", _.noop);
 
         channel.pause();
 
@@ -0,0 +1,298 @@
+/* @flow */
+
+import * as _ from "lodash";
+import * as stream from "stream";
+
+export interface ITarEntry {
+    name: string;
+    type: "file" | "directory" | "symlink" | "hardlink" | "other";
+    mode: number;
+    size: number;
+    mtime: Date;
+    linkname?: string;
+}
+
+const BLOCK_SIZE = 512;
+// Octal fields are NUL terminated, eleven digits for the size caps it just short of 8GiB
+const MAX_OCTAL_SIZE = 0o77777777777;
+const TYPE_FLAGS: { [type: string]: string } = { file: "0", hardlink: "1", symlink: "2", directory: "5" };
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+    header.write(`${_.padStart(value.toString(8), length - 1, "0")}\0`, offset, length, "ascii");
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+    const field = header.slice(offset, offset + length);
+    const end = field.indexOf(0);
+    return field.slice(0, end === -1 ? length : end).toString("utf8");
+}
+
+function readOctal(header: Buffer, offset: number, length: number): number {
+    // GNU tar switches to base-256 for values that don't fit, marked by the high bit of the first byte
+    if (header[offset] === 0x80) {
+        let result = 0;
+        for (let i = offset + 1; i < offset + length; i++) {
+            result = result * 256 + header[i];
+        }
+        return result;
+    }
+    const value = readString(header, offset, length).trim();
+    return value ? parseInt(value, 8) : 0;
+}
+
+function getChecksum(header: Buffer): number {
+    let checksum = 0;
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+        // The checksum field itself counts as spaces
+        checksum += i >= 148 && i < 156 ? 0x20 : header[i];
+    }
+    return checksum;
+}
+
+function encodeBlock(name: string, prefix: string, typeFlag: string, entry: ITarEntry, size: number): Buffer {
+    const header = new Buffer(BLOCK_SIZE).fill(0);
+    header.write(name, 0, 100, "utf8");
+    // tslint:disable-next-line:no-bitwise
+    writeOctal(header, entry.mode & 0o7777, 100, 8);
+    writeOctal(header, 0, 108, 8);
+    writeOctal(header, 0, 116, 8);
+    writeOctal(header, size, 124, 12);
+    writeOctal(header, Math.floor(entry.mtime.getTime() / 1000), 136, 12);
+    header.write(typeFlag, 156, 1, "ascii");
+    header.write(entry.linkname || "", 157, 100, "utf8");
+    header.write("ustar\u000000", 257, 8, "ascii");
+    header.write(prefix, 345, 155, "utf8");
+    header.write(`${_.padStart(getChecksum(header).toString(8), 6, "0")}\0 `, 148, 8, "ascii");
+    return header;
+}
+
+function encodePaxRecord(key: string, value: string): string {
+    const record = ` ${key}=${value}\n`;
+    const base = Buffer.byteLength(record);
+    // The length prefix counts its own digits
+    let length = base;
+    while (length !== base + String(length).length) {
+        length = base + String(length).length;
+    }
+    return `${length}${record}`;
+}
+
+function getPadding(size: number): Buffer {
+    return new Buffer((BLOCK_SIZE - size % BLOCK_SIZE) % BLOCK_SIZE).fill(0);
+}
+
+function splitName(name: string): [string, string] {
+    // ustar fits up to 255 bytes by moving leading directories into the prefix field
+    for (let index = name.indexOf("/"); index !== -1; index = name.indexOf("/", index + 1)) {
+        const prefix = name.slice(0, index);
+        const rest = name.slice(index + 1);
+        if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(rest) <= 100 && rest) {
+            return [rest, prefix];
+        }
+    }
+    return null;
+}
+
+export function encodeTarHeader(entry: ITarEntry): Buffer {
+    let records = "";
+    let name = entry.name;
+    let prefix = "";
+    let size = entry.type === "file" ? entry.size : 0;
+
+    if (Buffer.byteLength(name) > 100) {
+        const split = splitName(name);
+        if (split) {
+            [name, prefix] = split;
+        } else {
+            records += encodePaxRecord("path", name);
+        }
+    }
+    if (entry.linkname && Buffer.byteLength(entry.linkname) > 100) {
+        records += encodePaxRecord("linkpath", entry.linkname);
+    }
+    if (size > MAX_OCTAL_SIZE) {
+        records += encodePaxRecord("size", String(size));
+        size = 0;
+    }
+
+    const header = encodeBlock(name, prefix, TYPE_FLAGS[entry.type], entry, size);
+    if (!records) {
+        return header;
+    }
+    const pax = new Buffer(records, "utf8");
+    return Buffer.concat([
+        encodeBlock("PaxHeader", "", "x", entry, pax.length), pax, getPadding(pax.length), header
+    ]);
+}
+
+function write(output: stream.Writable, chunk: Buffer): Promise<void> {
+    return new Promise<void>((resolve) => {
+        if (output.write(chunk)) {
+            resolve();
+        } else {
+            output.once("drain", resolve);
+        }
+    });
+}
+
+export async function writeTarEntry(output: stream.Writable,
+                                    entry: ITarEntry,
+                                    contents: NodeJS.ReadableStream = null,
+                                    onData: (written: number, chunk: number) => void = _.noop): Promise<void> {
+    await write(output, encodeTarHeader(entry));
+    if (entry.type !== "file") {
+        return;
+    }
+
+    let written = 0;
+    await new Promise<void>((resolve, reject) => {
+        contents.on("data", (chunk: Buffer) => {
+            contents.pause();
+            written += chunk.length;
+            if (written > entry.size) {
+                reject(new Error(`${entry.name} grew while it was being archived`));
+                return;
+            }
+            write(output, chunk).then(() => {
+                onData(written, chunk.length);
+                contents.resume();
+            }, reject);
+        });
+        contents.once("error", reject);
+        contents.once("end", resolve);
+    });
+    if (written !== entry.size) {
+        throw new Error(`${entry.name} shrunk while it was being archived`);
+    }
+    await write(output, getPadding(entry.size));
+}
+
+export async function endTar(output: stream.Writable): Promise<void> {
+    // Two empty blocks mark the end of the archive
+    await write(output, new Buffer(BLOCK_SIZE * 2).fill(0));
+    output.end();
+}
+
+// Extracts ustar, pax and GNU archives, every entry is handed to the callback together with a stream of its contents,
+// which has to be consumed before the returned promise resolves
+export class TarParser extends stream.Writable {
+    private buffer = new Buffer(0);
+    private contents: stream.PassThrough = null;
+    private handled: Promise<void> = null;
+    private metadata: Buffer[] = null;
+    private remaining = 0;
+    private padding = 0;
+    private metadataType: string = null;
+    private overrides: { [key: string]: string } = {};
+
+    constructor(private onEntry: (entry: ITarEntry, contents: stream.Readable) => Promise<void>) {
+        super();
+    }
+
+    public _write(chunk: Buffer, encoding: string, callback: (error?: Error) => void) {
+        this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+        this.consume().then(() => callback(), callback);
+    }
+
+    private async consume(): Promise<void> {
+        while (this.buffer.length) {
+            if (this.remaining > 0) {
+                const chunk = this.take(Math.min(this.remaining, this.buffer.length));
+                this.remaining -= chunk.length;
+                if (this.metadata) {
+                    this.metadata.push(chunk);
+                } else if (!this.contents.write(chunk)) {
+                    await new Promise((resolve) => this.contents.once("drain", resolve));
+                }
+                if (this.remaining === 0) {
+                    await this.finishEntry();
+                }
+            } else if (this.padding > 0) {
+                this.padding -= this.take(Math.min(this.padding, this.buffer.length)).length;
+            } else if (this.buffer.length >= BLOCK_SIZE) {
+                await this.readHeader(this.take(BLOCK_SIZE));
+            } else {
+                return;
+            }
+        }
+    }
+
+    private take(length: number): Buffer {
+        const chunk = this.buffer.slice(0, length);
+        this.buffer = this.buffer.slice(length);
+        return chunk;
+    }
+
+    private async readHeader(header: Buffer) {
+        if (header.every((byte) => byte === 0)) {
+            return;
+        }
+        if (readOctal(header, 148, 8) !== getChecksum(header)) {
+            throw new Error("Invalid tar header checksum");
+        }
+
+        const typeFlag = String.fromCharCode(header[156]);
+        const isMetadata = ["x", "g", "L", "K"].indexOf(typeFlag) !== -1;
+        const size = (!isMetadata && parseInt(this.overrides.size, 10)) || readOctal(header, 124, 12);
+        this.remaining = size;
+        this.padding = getPadding(size).length;
+
+        if (isMetadata) {
+            this.metadata = [];
+            this.metadataType = typeFlag;
+            if (size === 0) {
+                await this.finishEntry();
+            }
+            return;
+        }
+
+        const prefix = readString(header, 345, 155);
+        const name = readString(header, 0, 100);
+        const entry: ITarEntry = {
+            linkname: this.overrides.linkpath || readString(header, 157, 100),
+            mode: readOctal(header, 100, 8),
+            mtime: new Date(readOctal(header, 136, 12) * 1000),
+            name: this.overrides.path || (prefix ? `${prefix}/${name}` : name),
+            size,
+            type: typeFlag === "0" || typeFlag === "\0" || typeFlag === "7" ? "file" :
+                typeFlag === "1" ? "hardlink" :
+                typeFlag === "2" ? "symlink" :
+                typeFlag === "5" ? "directory" : "other"
+        };
+        this.overrides = {};
+        const contents = new stream.PassThrough();
+        this.contents = contents;
+        // A failed handler stops reading, the rest of the entry is drained so its error gets to surface
+        this.handled = this.onEntry(entry, contents);
+        this.handled.catch(() => contents.resume());
+        if (size === 0) {
+            await this.finishEntry();
+        }
+    }
+
+    private async finishEntry() {
+        if (this.metadata) {
+            const metadata = Buffer.concat(this.metadata).toString("utf8");
+            const typeFlag = this.metadataType;
+            this.metadata = null;
+            if (typeFlag === "L") {
+                this.overrides.path = metadata.replace(/\0+$/, "");
+            } else if (typeFlag === "K") {
+                this.overrides.linkpath = metadata.replace(/\0+$/, "");
+            } else if (typeFlag === "x") {
+                for (const record of metadata.split("\n")) {
+                    const match = /^\d+ ([^=]+)=(.*)$/.exec(record);
+                    if (match) {
+                        this.overrides[match[1]] = match[2];
+                    }
+                }
+            }
+            return;
+        }
+
+        this.contents.end();
+        await this.handled;
+        this.contents = null;
+        this.handled = null;
+    }
+}
@@ -1,11 +1,87 @@
 /* @flow */
 
 import * as ssh2 from "ssh2";
+import { Attributes, Prompt, TransferOptions } from "ssh2-streams";
+
+export interface ICancelSignal {
+    aborted: boolean;
+    addEventListener(type: "abort", listener: () => void): void;
+    removeEventListener(type: "abort", listener: () => void): void;
+}
+
+export interface IPrivateKey {
+    privateKey: string;
+    passphrase?: string;
+}
+
+export interface IConnectConfig extends ssh2.ConnectConfig {
+    jump?: IConnectConfig | IConnectConfig[];
+    sshConfig?: string | boolean;
+    hostKeyPolicy?: "strict" | "accept-new" | "off";
+    knownHosts?: string;
+    privateKeys?: Array<string | IPrivateKey>;
+    onKeyboardInteractive?: (name: string, instructions: string, prompts: Prompt[]) => string[] | Promise<string[]>;
+}
+
+export interface ISSHOptions {
+    reconnect: boolean;
+    retries: number;
+    reconnectRetries: number;
+    retryDelay: number;
+    maxRetryDelay: number;
+    retryIdempotent: boolean;
+    keepaliveInterval?: number;
+    keepaliveCountMax?: number;
+    maxSftpSessions: number;
+    logger?: ILogger;
+    audit?: (entry: IAuditEntry) => void;
+}
+
+export interface ILogger {
+    debug(message: string, meta?: object): void;
+    info(message: string, meta?: object): void;
+    warn(message: string, meta?: object): void;
+    error(message: string, meta?: object): void;
+}
+
+export interface IAuditEntry {
+    host: string;
+    username: string;
+    command: string;
+    cwd: string;
+    sudo: boolean;
+    code: number;
+    signal: string;
+    duration: number;
+    // The code of the error the command failed with, if it did
+    error: string;
+}
 
 export interface IPutDirectoryOptions {
   recursive: boolean;
   tick: ((localPath: string, remotePath: string, error?: Error) => void);
   validate: ((localPath: string) => boolean);
+  transport: "sftp" | "tar";
+}
+
+export type IGetDirectoryOptions = IPutDirectoryOptions;
+
+export interface ISyncDirectoryOptions extends IPutDirectoryOptions {
+  checksum: boolean;
+  delete: boolean;
+}
+
+export interface ISyncDirectoryResult {
+    successful: boolean;
+    uploaded: ILocalRemotePair[];
+    skipped: ILocalRemotePair[];
+    failed: ILocalRemotePair[];
+    deleted: string[];
+}
+
+export interface IExecCommandHandle {
+    signal(signalName: string): void;
+    kill(): void;
 }
 
 export interface IExecOptions {
@@ -13,6 +89,16 @@ export interface IExecOptions {
     stdin?: string;
     stream?: "stdout" | "stderr" | "both";
     options?: ssh2.ExecOptions;
+    timeout?: number;
+    onStdout?: (chunk: Buffer) => void;
+    onStderr?: (chunk: Buffer) => void;
+    onStart?: (handle: IExecCommandHandle) => void;
+    signal?: ICancelSignal;
+    failOn?: "stderr" | "exitCode" | "never";
+    env?: { [name: string]: string };
+    envStrategy?: "setenv" | "export";
+    raw?: boolean;
+    binary?: boolean;
 }
 
 export interface IExecCommandOptions {
@@ -20,11 +106,21 @@ export interface IExecCommandOptions {
     stdin?: string;
     useSudo?: boolean;
     options?: ssh2.ExecOptions;
+    timeout?: number;
+    onStdout?: (chunk: Buffer) => void;
+    onStderr?: (chunk: Buffer) => void;
+    onStart?: (handle: IExecCommandHandle) => void;
+    signal?: ICancelSignal;
+    failOn?: "stderr" | "exitCode" | "never";
+    env?: { [name: string]: string };
+    envStrategy?: "setenv" | "export";
+    raw?: boolean;
+    binary?: boolean;
 }
 
-export interface IExecCommandResult {
-    stdout: string;
-    stderr: string;
+export interface IExecCommandResult<T = string> {
+    stdout: T;
+    stderr: T;
     signal?: string;
     code: number;
 }
@@ -34,25 +130,137 @@ export interface ILocalRemotePair {
     remote: string;
 }
 
+export interface ITransferProgress {
+    local: string;
+    remote: string;
+    fileTransferred: number;
+    fileTotal: number;
+    transferred: number;
+    total: number;
+    filesCompleted: number;
+    filesTotal: number;
+    bytesPerSecond: number;
+    // In seconds, null until there is a throughput to go by
+    eta: number;
+}
+
+export interface ITransferOptions extends TransferOptions {
+    onProgress?: (progress: ITransferProgress) => void;
+    signal?: ICancelSignal;
+    atomic?: boolean;
+    verify?: boolean;
+    verifyRetries?: number;
+    mode?: number;
+    preserveMode?: boolean;
+    preserveTimes?: boolean;
+    symlinks?: "follow" | "copy" | "skip";
+}
+
+export interface IRemoteDirectoryEntry {
+    name: string;
+    type: "file" | "directory" | "symlink" | "other";
+    attrs: Attributes;
+}
+
+export interface IPutStreamOptions {
+    append: boolean;
+    mode?: number;
+    encoding: string;
+    signal?: ICancelSignal;
+}
+
+export interface IWriteFileOptions {
+    encoding: string;
+    mode?: number;
+    flag: string;
+}
+
 export interface IClientChannelShell extends ssh2.ClientChannel {
     ignoreChunk?: string;
+    promptToken?: string;
+    promptReady?: boolean;
+    passwordRejected?: boolean;
 
-    once(event: "prompt", listener: () => void): this;
+    once(event: "prompt", listener: (code: number) => void): this;
     once(event: "password", listener: (callback: (password: string) => void) => void): this;
     // tslint:disable-next-line:ban-types
     once(event: string | symbol, listener: Function): this;
 
-    on(event: "prompt", listener: () => void): this;
+    on(event: "prompt", listener: (code: number) => void): this;
     on(event: "password", listener: (callback: (password: string) => void) => void): this;
     // tslint:disable-next-line:ban-types
     on(event: string | symbol, listener: Function): this;
 
-    emit(event: "prompt"): boolean;
+    emit(event: "prompt", code: number): boolean;
     emit(event: "password"): this;
     emit(event: string | symbol, ...args: any[]): boolean;
 }
 
+export interface IForwardStats {
+    connections: number;
+    activeConnections: number;
+    bytesSent: number;
+    bytesReceived: number;
+}
+
+export interface IForwardHandle {
+    type: "local" | "remote" | "dynamic";
+    port: number;
+    stats: IForwardStats;
+    close(): Promise<void>;
+}
+
+export interface ISudoOptions {
+    user?: string;
+    login: boolean;
+    strategy: "pty" | "stdin";
+    promptPatterns: RegExp[];
+}
+
 export interface ICommand {
     cmd: string;
+    timeout?: number;
+    /** @deprecated Ignored, every result carries the output of its command */
     output?: boolean;
 }
+
+export interface IRunCommandsOptions {
+    errorPolicy: "stopOnError" | "continueOnError";
+    timeout?: number;
+    signal?: ICancelSignal;
+}
+
+export interface IShellCommandResult {
+    command: string;
+    stdout: string;
+    // NOTE: Empty on servers that honor the pty, it merges stderr into stdout
+    stderr: string;
+    code: number;
+    duration: number;
+    timedOut: boolean;
+}
+
+export interface IPoolOptions {
+    concurrency: number;
+    maxConnectionsPerHost: number;
+    idleTimeout: number;
+}
+
+export interface IPoolResult<T> {
+    host: string;
+    config: IConnectConfig;
+    result?: T;
+    error?: Error;
+}
+
+export interface ITailOptions {
+    lines: number;
+    follow: boolean;
+    signal?: ICancelSignal;
+}
+
+export interface IWatchOptions {
+    interval: number;
+    recursive: boolean;
+    signal?: ICancelSignal;
+}
@@ -0,0 +1,204 @@
+/* @flow */
+// tslint:disable:max-classes-per-file
+
+import { EventEmitter } from "events";
+import * as path from "path";
+import * as ssh2 from "ssh2";
+import { Attributes, Stats } from "ssh2-streams";
+import { StringDecoder } from "string_decoder";
+import { CommandFailedError } from "./errors";
+import { RemoteFS } from "./remote-fs";
+import { IExecCommandResult, IWatchOptions } from "./types";
+
+function emitError(emitter: EventEmitter, error: Error) {
+    // Unhandled error events would throw, a failed poll or a tail that can't be read is no reason to crash
+    if (emitter.listenerCount("error")) {
+        emitter.emit("error", error);
+    }
+}
+
+function hasChanged(previous: Attributes, current: Attributes): boolean {
+    return previous.size !== current.size || previous.mtime !== current.mtime || previous.mode !== current.mode;
+}
+
+async function readSnapshot(remotePath: string,
+                            recursive: boolean,
+                            remoteFS: RemoteFS,
+                            snapshot: Map<string, Attributes> = new Map()): Promise<Map<string, Attributes>> {
+    let stats: Stats;
+    try {
+        stats = await remoteFS.stat(remotePath);
+    } catch (error) {
+        // Gone between listing its directory and getting to it, the next poll will report it
+        if (error.code === "ENOENT") {
+            return snapshot;
+        }
+        throw error;
+    }
+    snapshot.set(remotePath, stats);
+
+    if (stats.isDirectory()) {
+        for (const entry of await remoteFS.readdir(remotePath)) {
+            const entryPath = path.posix.join(remotePath, entry.name);
+            if (recursive && entry.type === "directory") {
+                await readSnapshot(entryPath, recursive, remoteFS, snapshot);
+            } else {
+                snapshot.set(entryPath, entry.attrs);
+            }
+        }
+    }
+    return snapshot;
+}
+
+// Emits every line of the file as it comes in, then error and close once tail exits. Lines are only emitted to the
+// listeners that are there when they arrive
+export class RemoteTail extends EventEmitter {
+    public result: IExecCommandResult = null;
+    private closing = false;
+    private closed: Promise<void>;
+
+    constructor(public remotePath: string, public command: string, private channel: ssh2.ClientChannel) {
+        super();
+
+        const decoder = new StringDecoder("utf8");
+        const stderr: string[] = [];
+        let pending = "";
+        const pushLines = (text: string) => {
+            const lines = (pending + text).split("\n");
+            pending = lines.pop();
+            lines.forEach((line) => this.emit("line", line.replace(/\r$/, "")));
+        };
+
+        channel.on("data", (chunk: Buffer) => pushLines(decoder.write(chunk)));
+        channel.stderr.on("data", (chunk: Buffer) => stderr.push(chunk.toString()));
+        channel.on("error", (error: Error) => emitError(this, error));
+        this.closed = new Promise<void>((resolve) => {
+            channel.once("close", (code: number, signal: string) => {
+                pushLines(decoder.end());
+                if (pending) {
+                    this.emit("line", pending);
+                }
+
+                this.result = { code, signal, stderr: stderr.join("").trim(), stdout: "" };
+                if (!this.closing && code !== 0) {
+                    emitError(this, new CommandFailedError(this.result.stderr || `tail exited with code ${code}`,
+                        command, this.result));
+                }
+                this.emit("close");
+                resolve();
+            });
+        });
+    }
+
+    public waitFor(pattern: string | RegExp, timeout: number = 0): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            let timer: NodeJS.Timer = null;
+            const settle = (callback: () => void) => {
+                clearTimeout(timer);
+                this.removeListener("line", onLine);
+                this.removeListener("error", onError);
+                this.removeListener("close", onClose);
+                callback();
+            };
+            const onLine = (line: string) => {
+                if (typeof pattern === "string" ? line.indexOf(pattern) !== -1 : pattern.test(line)) {
+                    settle(() => resolve(line));
+                }
+            };
+            const onError = (error: Error) => settle(() => reject(error));
+            const onClose = () => settle(() => reject(new CommandFailedError(
+                `tail of ${this.remotePath} ended before a line matched ${pattern}`, this.command, this.result,
+                "ENOMATCH")));
+
+            this.on("line", onLine);
+            this.on("error", onError);
+            this.on("close", onClose);
+            if (timeout) {
+                timer = setTimeout(() => settle(() => reject(new CommandFailedError(
+                    `No line of ${this.remotePath} matched ${pattern} within ${timeout}ms`, this.command,
+                    { code: null, stderr: "", stdout: "" }, "ETIMEDOUT"))), timeout);
+            }
+        });
+    }
+
+    public close(): Promise<void> {
+        if (!this.closing) {
+            this.closing = true;
+            // NOTE: Not every server honors signal requests, closing the channel makes sure tail goes away
+            this.channel.signal("TERM");
+            this.channel.close();
+        }
+        return this.closed;
+    }
+}
+
+// Polls the path and everything in it, emits ready once the first poll is in, then create, change and delete.
+// Changes within the same second that keep the size are only seen by the next one that doesn't
+export class RemoteWatcher extends EventEmitter {
+    private snapshot: Map<string, Attributes> = null;
+    private timer: NodeJS.Timer = null;
+    private polling: Promise<void> = Promise.resolve();
+    private closed = false;
+
+    constructor(public remotePath: string,
+                private options: IWatchOptions,
+                private withFS: (callback: (remoteFS: RemoteFS) => Promise<Map<string, Attributes>>) =>
+                    Promise<Map<string, Attributes>>) {
+        super();
+        this.schedule(0);
+    }
+
+    public async close(): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        clearTimeout(this.timer);
+        await this.polling;
+        this.emit("close");
+    }
+
+    private schedule(delay: number) {
+        this.timer = setTimeout(() => {
+            this.polling = this.poll().then(() => {
+                if (!this.closed) {
+                    this.schedule(this.options.interval);
+                }
+            });
+        }, delay);
+    }
+
+    private async poll() {
+        let snapshot: Map<string, Attributes>;
+        try {
+            snapshot = await this.withFS((remoteFS) => readSnapshot(this.remotePath, this.options.recursive, remoteFS));
+        } catch (error) {
+            if (!this.closed) {
+                emitError(this, error);
+            }
+            return;
+        }
+        if (this.closed) {
+            return;
+        }
+
+        const previous = this.snapshot;
+        this.snapshot = snapshot;
+        if (!previous) {
+            this.emit("ready");
+            return;
+        }
+        previous.forEach((stats, entryPath) => {
+            if (!snapshot.has(entryPath)) {
+                this.emit("delete", entryPath);
+            }
+        });
+        snapshot.forEach((stats, entryPath) => {
+            if (!previous.has(entryPath)) {
+                this.emit("create", entryPath, stats);
+            } else if (hasChanged(previous.get(entryPath), stats)) {
+                this.emit("change", entryPath, stats);
+            }
+        });
+    }
+}